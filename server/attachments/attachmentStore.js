@@ -0,0 +1,174 @@
+// 附件存储 - 日记的照片和语音以文件保存在用户数据目录的 attachments/ 文件夹中：
+// <id> 为原文件，<id>.thumb 为缩略图（可以没有），<id>.json 为附件信息
+// { id, kind, name, mimeType, size, width, height, duration, thumbnailMimeType, createdAt }。
+// 附件写入后不再修改，因此快照可以用硬链接保存附件，不额外占用空间
+const fs = require('fs').promises;
+const path = require('path');
+
+const VARIANT_SUFFIXES = { original: '', thumbnail: '.thumb' };
+
+// 导出时附件文件使用的扩展名
+const MIME_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/heic': '.heic',
+  'image/heif': '.heif',
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+  'audio/mp4': '.m4a',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'audio/aac': '.aac'
+};
+
+const fileExtension = mimeType => MIME_EXTENSIONS[mimeType] || '';
+
+const isAttachmentFile = name => /^[0-9A-Z]+(\.thumb|\.json)?$/.test(name);
+
+// 附件 id 是服务器生成的 ULID；id 会拼入文件路径，其他值（例如 ../settings）一律拒绝
+const isAttachmentId = id => typeof id === 'string' && /^[0-9A-HJKMNP-TV-Z]{26}$/.test(id);
+
+function checkId(id) {
+  if (!isAttachmentId(id)) {
+    throw new Error(`Invalid attachment id: ${id}`);
+  }
+}
+
+function createAttachmentStore({ dirPath }) {
+  const infoPath = id => {
+    checkId(id);
+    return path.join(dirPath, `${id}.json`);
+  };
+  const filePath = (id, variant = 'original') => {
+    checkId(id);
+    return path.join(dirPath, `${id}${VARIANT_SUFFIXES[variant]}`);
+  };
+
+  async function writeFileAtomic(target, data) {
+    const tempPath = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, target);
+  }
+
+  async function readIfExists(target, encoding) {
+    try {
+      return await fs.readFile(target, encoding);
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async function listFiles(dir) {
+    try {
+      return (await fs.readdir(dir)).filter(isAttachmentFile);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  // 硬链接文件，不支持时（例如跨文件系统）改为复制
+  async function linkOrCopy(source, target) {
+    try {
+      await fs.link(source, target);
+    } catch (error) {
+      if (error.code === 'EEXIST') return;
+      await fs.copyFile(source, target);
+    }
+  }
+
+  return {
+    dirPath,
+
+    filePath,
+
+    // 保存附件：info 为附件信息，data 为原文件，thumbnail 为缩略图（可省略）。成功返回 true
+    async save(info, data, thumbnail = null) {
+      try {
+        await fs.mkdir(dirPath, { recursive: true });
+        await writeFileAtomic(filePath(info.id), data);
+        if (thumbnail) {
+          await writeFileAtomic(filePath(info.id, 'thumbnail'), thumbnail);
+        }
+        // 信息文件最后写入，有信息文件的附件才算完整
+        await writeFileAtomic(infoPath(info.id), JSON.stringify(info, null, 2));
+        return true;
+      } catch (error) {
+        console.error(`Error saving attachment ${info.id}:`, error);
+        return false;
+      }
+    },
+
+    // 附件信息，不存在或 id 无效时返回 null
+    async get(id) {
+      if (!isAttachmentId(id)) return null;
+      const text = await readIfExists(infoPath(id), 'utf8');
+      return text === null ? null : JSON.parse(text);
+    },
+
+    // 读取附件文件，不存在或 id 无效时返回 null
+    async read(id, variant = 'original') {
+      if (!isAttachmentId(id)) return null;
+      return readIfExists(filePath(id, variant));
+    },
+
+    async list() {
+      const infos = [];
+      for (const name of await listFiles(dirPath)) {
+        if (!name.endsWith('.json')) continue;
+        try {
+          infos.push(JSON.parse(await fs.readFile(path.join(dirPath, name), 'utf8')));
+        } catch (error) {
+          console.error(`Error reading attachment ${name}:`, error);
+        }
+      }
+      return infos;
+    },
+
+    async remove(id) {
+      if (!isAttachmentId(id)) return false;
+      try {
+        // 先删除信息文件，删除中断时剩下的文件不会被当作完整的附件
+        await fs.rm(infoPath(id), { force: true });
+        await fs.rm(filePath(id), { force: true });
+        await fs.rm(filePath(id, 'thumbnail'), { force: true });
+        return true;
+      } catch (error) {
+        console.error(`Error removing attachment ${id}:`, error);
+        return false;
+      }
+    },
+
+    // 把全部附件保存到快照文件夹 targetDir 中，返回附件数
+    async snapshotTo(targetDir) {
+      const names = await listFiles(dirPath);
+      if (names.length === 0) {
+        return 0;
+      }
+      await fs.mkdir(targetDir, { recursive: true });
+      for (const name of names) {
+        await linkOrCopy(path.join(dirPath, name), path.join(targetDir, name));
+      }
+      return names.filter(name => name.endsWith('.json')).length;
+    },
+
+    // 从快照文件夹 sourceDir 中恢复当前缺少的附件，已有的附件保持不变
+    async restoreFrom(sourceDir) {
+      const names = await listFiles(sourceDir);
+      if (names.length > 0) {
+        await fs.mkdir(dirPath, { recursive: true });
+      }
+      // 信息文件最后恢复，与 save 相同
+      const ordered = [...names.filter(name => !name.endsWith('.json')), ...names.filter(name => name.endsWith('.json'))];
+      for (const name of ordered) {
+        await linkOrCopy(path.join(sourceDir, name), path.join(dirPath, name));
+      }
+    }
+  };
+}
+
+module.exports = { createAttachmentStore, fileExtension };
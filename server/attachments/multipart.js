@@ -0,0 +1,67 @@
+// multipart/form-data 解析 - 用于附件上传。请求体由 express.raw 整个读入（有大小上限），
+// 这里按分隔符拆分为各个字段。只支持浏览器 FormData 发送的格式，不支持嵌套的 multipart
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+function getBoundary(contentType) {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType || '');
+  return match ? match[1] || match[2] : null;
+}
+
+function parsePartHeaders(text) {
+  const headers = {};
+  for (const line of text.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+// 返回 [{ name, filename, contentType, data }]，普通字段的 filename 为 null；格式无效时返回 null
+function parseMultipart(body, contentType) {
+  const boundary = getBoundary(contentType);
+  if (!boundary || !Buffer.isBuffer(body)) {
+    return null;
+  }
+  const delimiter = Buffer.from(`--${boundary}`);
+  const nextDelimiter = Buffer.from(`\r\n--${boundary}`);
+
+  let position = body.indexOf(delimiter);
+  if (position === -1) {
+    return null;
+  }
+  const parts = [];
+  while (true) {
+    position += delimiter.length;
+    // 最后一个分隔符后面是 --
+    if (body.subarray(position, position + 2).toString() === '--') {
+      return parts;
+    }
+    const headerEnd = body.indexOf(HEADER_END, position);
+    if (headerEnd === -1) {
+      return null;
+    }
+    const headers = parsePartHeaders(body.subarray(position, headerEnd).toString('utf8'));
+    const dataStart = headerEnd + HEADER_END.length;
+    const dataEnd = body.indexOf(nextDelimiter, dataStart);
+    if (dataEnd === -1) {
+      return null;
+    }
+
+    const disposition = headers['content-disposition'] || '';
+    const name = /\bname="([^"]*)"/i.exec(disposition);
+    const filename = /\bfilename="([^"]*)"/i.exec(disposition);
+    if (name) {
+      parts.push({
+        name: name[1],
+        filename: filename ? filename[1] : null,
+        contentType: headers['content-type'] || null,
+        data: body.subarray(dataStart, dataEnd)
+      });
+    }
+    position = dataEnd + 2;
+  }
+}
+
+module.exports = { parseMultipart };
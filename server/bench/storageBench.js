@@ -0,0 +1,127 @@
+// 存储后端写入延迟基准测试：npm run bench
+// 分别在已有 1k / 10k / 20k 篇日记时，逐条新增和修改日记，统计单次写入耗时的中位数、p95 和最大值。
+// rewrite 为改用修改日志之前的做法（每次写入都重写整个 entries.json），仅作对比，写入次数较少。
+// 每轮结束后重新打开存储，确认内存中的数据与重放日志得到的数据一致
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { readJSONFile, writeJSONFile, CURRENT_SCHEMA_VERSION } = require('../server');
+const { createJsonStorage } = require('../storage/jsonStorage');
+const { createSqliteStorage } = require('../storage/sqliteStorage');
+
+const SIZES = [1000, 10000, 20000];
+const OPERATIONS = Number(process.env.BENCH_OPERATIONS) || 1500;
+const REWRITE_OPERATIONS = 50;
+
+function makeEntry(index) {
+  return {
+    id: crypto.randomUUID(),
+    date: new Date(Date.UTC(2015, 0, 1) + index * 3600 * 1000).toISOString(),
+    content: `第 ${index} 篇日记。${'今天天气很好，心情不错。'.repeat(10)}`,
+    mood: 'happy',
+    revision: 1,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+const storages = {
+  json: dir => createJsonStorage({
+    filePath: path.join(dir, 'entries.json'),
+    logPath: path.join(dir, 'entries.log'),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    migrate: entries => entries,
+    readJSONFile,
+    writeJSONFile
+  }),
+  sqlite: dir => createSqliteStorage({
+    filename: path.join(dir, 'entries.db'),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    migrate: entries => entries
+  }),
+  rewrite: dir => {
+    const filePath = path.join(dir, 'entries.json');
+    let entries = [];
+    return {
+      init: async () => {},
+      close: async () => {},
+      list: async () => readJSONFile(filePath, []),
+      replaceAll: async data => {
+        entries = [...data];
+        return writeJSONFile(filePath, entries);
+      },
+      create: async entry => {
+        entries = await readJSONFile(filePath, []);
+        entries.unshift(entry);
+        return writeJSONFile(filePath, entries);
+      },
+      update: async entry => {
+        entries = await readJSONFile(filePath, []);
+        entries[entries.findIndex(item => item.id === entry.id)] = entry;
+        return writeJSONFile(filePath, entries);
+      }
+    };
+  }
+};
+
+function summarize(durations) {
+  const sortedDurations = [...durations].sort((a, b) => a - b);
+  const at = ratio => sortedDurations[Math.min(sortedDurations.length - 1, Math.floor(sortedDurations.length * ratio))];
+  return {
+    'median (ms)': at(0.5).toFixed(2),
+    'p95 (ms)': at(0.95).toFixed(2),
+    'max (ms)': sortedDurations[sortedDurations.length - 1].toFixed(2)
+  };
+}
+
+async function run(backend, size) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `diary-bench-${backend}-`));
+  try {
+    const seed = Array.from({ length: size }, (_, index) => makeEntry(index));
+    let storage = storages[backend](dir);
+    await storage.init();
+    await storage.replaceAll(seed);
+
+    const operations = backend === 'rewrite' ? REWRITE_OPERATIONS : OPERATIONS;
+    const durations = [];
+    for (let i = 0; i < operations; i++) {
+      const write = i % 2 === 0
+        ? () => storage.create(makeEntry(size + i))
+        : () => storage.update({ ...seed[i % size], content: `修改 ${i}`, revision: 2 });
+      const start = process.hrtime.bigint();
+      if (!await write()) {
+        throw new Error(`${backend}: write ${i} failed`);
+      }
+      durations.push(Number(process.hrtime.bigint() - start) / 1e6);
+    }
+
+    const expected = await storage.list();
+    await storage.close();
+    storage = storages[backend](dir);
+    await storage.init();
+    const reopened = await storage.list();
+    await storage.close();
+    if (JSON.stringify(reopened) !== JSON.stringify(expected)) {
+      throw new Error(`${backend}: data after reopening does not match`);
+    }
+
+    return { backend, entries: size, writes: operations, ...summarize(durations) };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const results = [];
+  for (const size of SIZES) {
+    for (const backend of Object.keys(storages)) {
+      results.push(await run(backend, size));
+    }
+  }
+  console.table(results);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+// 服务器配置 - 依次读取默认值、配置文件、环境变量和命令行参数，后者覆盖前者。
+// 配置文件默认为 server/config.json（不存在时跳过），可用 --config 或 CONFIG_FILE 指定其他文件；
+// 配置文件中的相对路径相对于配置文件所在目录，环境变量和命令行参数中的相对路径相对于当前目录
+const fs = require('fs');
+const path = require('path');
+const util = require('util');
+
+const DEFAULT_CONFIG_FILE = path.join(__dirname, 'config.json');
+
+const STORAGE_BACKENDS = ['json', 'sqlite', 'markdown'];
+
+const DEFAULTS = {
+  port: 3001,
+  // 默认只监听本机，需要从局域网访问时改为 0.0.0.0
+  host: '127.0.0.1',
+  dataDir: path.join(__dirname, '../src/data'),
+  // 允许跨域访问的来源（开发时的 vite 服务器）。由本服务器提供的页面与 API 同源，不需要列出
+  corsOrigins: ['http://localhost:3000', 'http://127.0.0.1:3000'],
+  storageBackend: 'json'
+};
+
+// 配置项 -> [环境变量, 命令行参数]
+const OPTIONS = {
+  port: ['PORT', 'port'],
+  host: ['HOST', 'host'],
+  dataDir: ['DATA_DIR', 'data-dir'],
+  corsOrigins: ['CORS_ORIGINS', 'cors-origins'],
+  storageBackend: ['STORAGE_BACKEND', 'storage']
+};
+
+// 解析命令行参数，返回配置项和其余的位置参数（例如 migrate-storage 的子命令）
+function parseCommandLine(argv) {
+  const options = { config: { type: 'string' }, force: { type: 'boolean' } };
+  for (const [, flag] of Object.values(OPTIONS)) {
+    options[flag] = { type: 'string' };
+  }
+  const { values, positionals } = util.parseArgs({ args: argv, options, allowPositionals: true });
+  return { values, positionals };
+}
+
+function readConfigFile(file, required) {
+  let text;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT' && !required) {
+      return {};
+    }
+    throw new Error(`Cannot read config file ${file}: ${error.message}`);
+  }
+
+  let config;
+  try {
+    config = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${file} is not valid JSON: ${error.message}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`Config file ${file} must contain a JSON object`);
+  }
+  const unknown = Object.keys(config).filter(key => !(key in OPTIONS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown option in ${file}: ${unknown.join(', ')}`);
+  }
+  if (typeof config.dataDir === 'string') {
+    config.dataDir = path.resolve(path.dirname(file), config.dataDir);
+  }
+  return config;
+}
+
+// 把各来源的值统一成最终的类型，并检查取值范围
+function normalizeConfig(config) {
+  const port = Number(config.port);
+  if (String(config.port).trim() === '' || !Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${config.port}`);
+  }
+  if (typeof config.host !== 'string' || config.host.trim() === '') {
+    throw new Error(`Invalid host: ${config.host}`);
+  }
+  if (typeof config.dataDir !== 'string' || config.dataDir.trim() === '') {
+    throw new Error(`Invalid data directory: ${config.dataDir}`);
+  }
+  const corsOrigins = typeof config.corsOrigins === 'string' ? config.corsOrigins.split(',') : config.corsOrigins;
+  if (!Array.isArray(corsOrigins) || corsOrigins.some(origin => typeof origin !== 'string')) {
+    throw new Error('corsOrigins must be a list of origins');
+  }
+  if (!STORAGE_BACKENDS.includes(config.storageBackend)) {
+    throw new Error(`Storage backend must be one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return {
+    port,
+    host: config.host.trim(),
+    dataDir: path.resolve(config.dataDir),
+    corsOrigins: corsOrigins.map(origin => origin.trim()).filter(Boolean),
+    storageBackend: config.storageBackend
+  };
+}
+
+// 读取配置；配置无效时抛出异常。返回 { config, configFile, args, force }
+function loadConfig(argv = process.argv.slice(2), env = process.env) {
+  const { values, positionals } = parseCommandLine(argv);
+  const explicitFile = values.config ?? env.CONFIG_FILE;
+  const configFile = path.resolve(explicitFile ?? DEFAULT_CONFIG_FILE);
+  const fileConfig = readConfigFile(configFile, explicitFile !== undefined);
+
+  const config = { ...DEFAULTS, ...fileConfig };
+  for (const [key, [envName, flag]] of Object.entries(OPTIONS)) {
+    if (values[flag] !== undefined) {
+      config[key] = values[flag];
+    } else if (env[envName] !== undefined && env[envName] !== '') {
+      config[key] = env[envName];
+    }
+  }
+
+  return {
+    config: normalizeConfig(config),
+    configFile: fs.existsSync(configFile) ? configFile : null,
+    args: positionals,
+    force: values.force === true
+  };
+}
+
+module.exports = { loadConfig, STORAGE_BACKENDS };
@@ -0,0 +1,293 @@
+// 日记导出 - 把日记整理成可离线浏览的文件：Markdown 归档（每篇日记一个 .md 文件加目录 index.md），
+// 或静态网页（带月历的 index.html，每篇日记一个渲染好的网页，心情用颜色标出）。
+// 返回 [{ name, content }] 文件列表，由 zipArchive 打包。日期按导出者的时区 timeZone 显示和分组；
+// 日记的照片附件保存在 attachments/ 中
+const { fileExtension } = require('../attachments/attachmentStore');
+const { compareEntries } = require('../storage/entryQuery');
+const { entryFileName, formatEntryFile } = require('../storage/markdownStorage');
+const { escapeHtml, renderMarkdown } = require('./markdownRenderer');
+
+// 按设置中的心情刻度（moodScale）查找心情；刻度中没有的心情用灰色显示原值
+function createMoodLookup(moodScale) {
+  const moods = new Map(moodScale.map(mood => [mood.value, mood]));
+  return value => moods.get(value) || { value, label: value, color: '#9CA3AF', emoji: '📝' };
+}
+
+const WEEKDAYS = ['一', '二', '三', '四', '五', '六', '日'];
+
+// 日记在 timeZone 中的年、月、日和时间
+function localDateParts(date, timeZone) {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(date)).map(({ type, value }) => [type, value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    key: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`
+  };
+}
+
+// 日记的标题：第一行非空文字，去掉 Markdown 标记
+function entryTitle(content) {
+  const line = String(content).split('\n').map(text => text.trim()).find(Boolean) || '';
+  const title = line.replace(/^(#{1,6}\s+|>\s*|[-*+]\s+|\d+[.)]\s+)/, '').replace(/[*_~`]/g, '').trim();
+  return title.length > 60 ? `${title.slice(0, 60)}…` : title || '（无内容）';
+}
+
+// 按时间正序排列，并按年月分组：[{ year, month, entries: [{ entry, local, name }] }]
+function groupByMonth(entries, timeZone, extension) {
+  const months = [];
+  for (const entry of [...entries].sort(compareEntries).reverse()) {
+    const local = localDateParts(entry.date, timeZone);
+    let group = months[months.length - 1];
+    if (!group || group.year !== local.year || group.month !== local.month) {
+      group = { year: local.year, month: local.month, entries: [] };
+      months.push(group);
+    }
+    group.entries.push({ entry, local, name: entryFileName(entry).replace(/\.md$/, extension) });
+  }
+  return months;
+}
+
+// 导出范围的说明，例如「2026-01-01 至 最新 · 心情：😊 开心」
+function describeFilter({ from, to, moods }, timeZone, moodOf) {
+  const format = date => localDateParts(date, timeZone).key;
+  const range = from || to ? `${from ? format(from) : '最早'} 至 ${to ? format(to) : '最新'}` : '全部日期';
+  if (!moods) return range;
+  return `${range} · 心情：${moods.map(value => `${moodOf(value).emoji} ${moodOf(value).label}`).join('、')}`;
+}
+
+// 日记中可以导出的附件：[{ attachment, file, thumbnail }]，file / thumbnail 为 attachments/ 中的文件名。
+// attachments 为附件 id -> { info, data, thumbnail }，缺少文件的附件不导出
+function exportedAttachments(entry, attachments) {
+  return (entry.attachments || [])
+    .filter(attachment => attachments.has(attachment.id))
+    .map(attachment => {
+      const { info, thumbnail } = attachments.get(attachment.id);
+      return {
+        attachment,
+        file: `${attachment.id}${fileExtension(info.mimeType)}`,
+        thumbnail: thumbnail ? `${attachment.id}.thumb${fileExtension(info.thumbnailMimeType)}` : null
+      };
+    });
+}
+
+// 语音时长显示为 分:秒
+function formatDuration(seconds) {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+const voiceLabel = attachment => `🎙️ 语音${typeof attachment.duration === 'number' ? ` ${formatDuration(attachment.duration)}` : ''}`;
+
+// 附件文件；withThumbnails 为 false 时只导出原文件
+function attachmentFiles(entries, attachments, withThumbnails) {
+  const files = new Map();
+  for (const entry of entries) {
+    for (const { attachment, file, thumbnail } of exportedAttachments(entry, attachments)) {
+      const { data, thumbnail: thumbnailData } = attachments.get(attachment.id);
+      files.set(file, data);
+      if (withThumbnails && thumbnail) {
+        files.set(thumbnail, thumbnailData);
+      }
+    }
+  }
+  return Array.from(files, ([name, content]) => ({ name: `attachments/${name}`, content }));
+}
+
+// ===== Markdown 归档 =====
+
+// options：title 标题，timeZone 时区，filter 导出时的筛选条件（只用于在目录中说明导出范围），
+// moodScale 心情刻度，attachments 附件内容（见 exportedAttachments）
+function buildMarkdownArchive(entries, { title, timeZone, filter = {}, moodScale = [], attachments = new Map() }) {
+  const moodOf = createMoodLookup(moodScale);
+  const months = groupByMonth(entries, timeZone, '.md');
+  const index = [`# ${title}`, '', `${describeFilter(filter, timeZone, moodOf)}，共 ${entries.length} 篇日记。`];
+  const files = [];
+
+  for (const group of months) {
+    index.push('', `## ${group.year} 年 ${group.month} 月`, '');
+    for (const { entry, local, name } of group.entries) {
+      const mood = moodOf(entry.mood);
+      index.push(`- ${local.key} ${local.time} ${mood.emoji} [${entryTitle(entry.content).replace(/[[\]]/g, '\\$&')}](entries/${name})`);
+      // 导出的文件与 Markdown 文件夹存储的格式相同，照片以图片链接、语音以文件链接附在正文之后
+      const { id, date, mood: value, emotions, tags, content } = entry;
+      const links = exportedAttachments(entry, attachments).map(({ attachment, file }) => (
+        attachment.kind === 'audio'
+          ? `[${voiceLabel(attachment)}](../attachments/${file})`
+          : `![${attachment.name.replace(/[[\]]/g, '')}](../attachments/${file})`
+      ));
+      const body = links.length > 0 ? `${content}\n\n${links.join('\n')}` : content;
+      files.push({ name: `entries/${name}`, content: formatEntryFile({
+        id,
+        date,
+        mood: value,
+        emotions: emotions?.length ? emotions : undefined,
+        tags: tags?.length ? tags : undefined,
+        content: body
+      }) });
+    }
+  }
+
+  return [{ name: 'index.md', content: `${index.join('\n')}\n` }, ...files, ...attachmentFiles(entries, attachments, false)];
+}
+
+// ===== 静态网页 =====
+
+const STYLE = `* { box-sizing: border-box; }
+body { margin: 0; background: #f9fafb; color: #111827; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 20px 64px; }
+a { color: #7c3aed; }
+h1 { margin: 0 0 4px; }
+.summary { color: #6b7280; margin: 0 0 24px; }
+.legend { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 24px; font-size: 14px; }
+.legend span { display: inline-flex; align-items: center; gap: 6px; }
+.dot { width: 12px; height: 12px; border-radius: 50%; display: inline-block; }
+.month { background: #fff; border-radius: 12px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); padding: 20px; margin-bottom: 24px; }
+.month h2 { margin: 0 0 12px; font-size: 20px; }
+.calendar { display: grid; grid-template-columns: repeat(7, 1fr); gap: 4px; margin-bottom: 16px; }
+.calendar .weekday { text-align: center; font-size: 12px; color: #6b7280; }
+.calendar .day { aspect-ratio: 1; border-radius: 8px; display: flex; align-items: center; justify-content: center; font-size: 14px; color: #9ca3af; background: #f3f4f6; text-decoration: none; }
+.calendar a.day { color: #fff; font-weight: 600; }
+.calendar .empty { background: transparent; }
+.entries { list-style: none; margin: 0; padding: 0; }
+.entries li { padding: 6px 0; border-top: 1px solid #f3f4f6; }
+.entries time { color: #6b7280; font-size: 14px; margin-right: 8px; }
+.mood { display: inline-block; padding: 2px 10px; border-radius: 999px; color: #fff; font-size: 14px; }
+.emotion { display: inline-block; padding: 2px 10px; border-radius: 999px; background: #fef3c7; color: #92400e; font-size: 14px; margin-left: 6px; }
+.tag { display: inline-block; padding: 2px 10px; border-radius: 999px; background: #ede9fe; color: #6d28d9; font-size: 14px; margin-left: 6px; }
+article { background: #fff; border-radius: 12px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); padding: 24px; margin: 16px 0; overflow-wrap: break-word; }
+article img { max-width: 100%; }
+article pre { background: #f3f4f6; padding: 12px; border-radius: 8px; overflow-x: auto; }
+article blockquote { margin: 0; padding-left: 16px; border-left: 4px solid #e5e7eb; color: #4b5563; }
+nav.pager { display: flex; justify-content: space-between; gap: 16px; }
+.photos { display: flex; flex-wrap: wrap; gap: 8px; margin: 16px 0; }
+.photos img { width: 120px; height: 120px; object-fit: cover; border-radius: 8px; display: block; }
+.voice figure { margin: 12px 0; }
+.voice figcaption { font-size: 14px; color: #6b7280; margin-bottom: 4px; }
+`;
+
+function page(title, body, stylesheet) {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${stylesheet}">
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+const moodChip = mood => (
+  `<span class="mood" style="background:${mood.color}">${mood.emoji} ${escapeHtml(mood.label)}</span>`
+);
+
+// 次要情绪，强度（1-5）用实心圆点表示
+const emotionChips = emotions => (emotions || []).map(({ name, intensity }) => (
+  `<span class="emotion">${escapeHtml(name)} ${'●'.repeat(intensity)}${'○'.repeat(5 - intensity)}</span>`
+)).join('');
+
+const tagChips = tags => (tags || []).map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`).join('');
+
+// 一个月的日历，周一在前。有日记的日子链接到当天第一篇日记，颜色为当天最后一篇日记的心情
+function renderCalendar(group, moodOf) {
+  const byDay = new Map();
+  for (const item of group.entries) {
+    byDay.set(item.local.day, [...(byDay.get(item.local.day) || []), item]);
+  }
+  const daysInMonth = new Date(Date.UTC(group.year, group.month, 0)).getUTCDate();
+  const offset = (new Date(Date.UTC(group.year, group.month - 1, 1)).getUTCDay() + 6) % 7;
+
+  const cells = WEEKDAYS.map(day => `<div class="weekday">${day}</div>`);
+  for (let i = 0; i < offset; i++) {
+    cells.push('<div class="day empty"></div>');
+  }
+  for (let day = 1; day <= daysInMonth; day++) {
+    const items = byDay.get(day);
+    if (!items) {
+      cells.push(`<div class="day">${day}</div>`);
+      continue;
+    }
+    const color = moodOf(items[items.length - 1].entry.mood).color;
+    const label = `${items.length} 篇日记`;
+    cells.push(`<a class="day" href="entries/${items[0].name}" style="background:${color}" title="${label}">${day}</a>`);
+  }
+  return `<div class="calendar">${cells.join('')}</div>`;
+}
+
+function buildHtmlSite(entries, { title, timeZone, filter = {}, moodScale = [], attachments = new Map() }) {
+  const moodOf = createMoodLookup(moodScale);
+  const months = groupByMonth(entries, timeZone, '.html');
+  const ordered = months.flatMap(group => group.entries);
+  const legend = moodScale
+    .map(mood => `<span><i class="dot" style="background:${mood.color}"></i>${mood.emoji} ${escapeHtml(mood.label)}</span>`)
+    .join('');
+
+  // 目录中最近的月份在前
+  const sections = [...months].reverse().map(group => {
+    const list = group.entries.map(({ entry, local, name }) => (
+      `<li><time>${local.key} ${local.time}</time>${moodChip(moodOf(entry.mood))} <a href="entries/${name}">${escapeHtml(entryTitle(entry.content))}</a></li>`
+    )).join('\n');
+    return `<section class="month">
+<h2>${group.year} 年 ${group.month} 月</h2>
+${renderCalendar(group, moodOf)}
+<ul class="entries">
+${list}
+</ul>
+</section>`;
+  });
+  const index = page(title, `<h1>${escapeHtml(title)}</h1>
+<p class="summary">${escapeHtml(describeFilter(filter, timeZone, moodOf))}，共 ${entries.length} 篇日记</p>
+<div class="legend">${legend}</div>
+${sections.join('\n') || '<p>没有日记。</p>'}`, 'style.css');
+
+  const files = ordered.map(({ entry, local, name }, position) => {
+    const previous = ordered[position - 1];
+    const next = ordered[position + 1];
+    // 照片显示缩略图，点击打开原图；语音使用浏览器自带的播放器
+    const exported = exportedAttachments(entry, attachments);
+    const photos = exported.filter(({ attachment }) => attachment.kind === 'image').map(({ attachment, file, thumbnail }) => (
+      `<a href="../attachments/${file}"><img src="../attachments/${thumbnail || file}" alt="${escapeHtml(attachment.name)}" loading="lazy"></a>`
+    ));
+    const voiceMemos = exported.filter(({ attachment }) => attachment.kind === 'audio').map(({ attachment, file }) => (
+      `<figure><figcaption>${escapeHtml(voiceLabel(attachment))}</figcaption><audio controls preload="none" src="../attachments/${file}"></audio></figure>`
+    ));
+    const body = `<p><a href="../index.html">← ${escapeHtml(title)}</a></p>
+<h1>${local.key} ${local.time}</h1>
+${moodChip(moodOf(entry.mood))}${emotionChips(entry.emotions)}${tagChips(entry.tags)}
+<article>
+${renderMarkdown(entry.content)}
+${voiceMemos.length > 0 ? `<div class="voice">${voiceMemos.join('')}</div>` : ''}
+${photos.length > 0 ? `<div class="photos">${photos.join('')}</div>` : ''}
+</article>
+<nav class="pager">
+<span>${previous ? `<a href="${previous.name}">← ${previous.local.key}</a>` : ''}</span>
+<span>${next ? `<a href="${next.name}">${next.local.key} →</a>` : ''}</span>
+</nav>`;
+    return { name: `entries/${name}`, content: page(`${local.key} - ${title}`, body, '../style.css') };
+  });
+
+  return [
+    { name: 'index.html', content: index },
+    { name: 'style.css', content: STYLE },
+    ...files,
+    ...attachmentFiles(entries, attachments, true)
+  ];
+}
+
+module.exports = { buildMarkdownArchive, buildHtmlSite };
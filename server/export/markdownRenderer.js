@@ -0,0 +1,116 @@
+// Markdown 渲染 - 把日记内容转换为 HTML，用于导出静态网页。
+// 支持日记中常用的语法：标题、段落、强调、行内代码和代码块、引用、列表、链接、图片和分隔线。
+// 原文中的 HTML 一律转义，链接只允许 http(s)、mailto 和以 /、./、../、# 开头的相对地址
+const escapeHtml = text => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const SAFE_URL = /^(https?:|mailto:|\/|\.\.?\/|#)/i;
+// 浏览器解析网址前会去掉控制字符和空白，例如 \u0001javascript: 仍是 javascript: 链接，含有这些字符的网址一律拒绝
+const UNSAFE_CHARACTERS = /[\u0000-\u0020\u007f-\u009f]/;
+
+function safeUrl(url) {
+  const trimmed = url.trim();
+  return SAFE_URL.test(trimmed) && !UNSAFE_CHARACTERS.test(trimmed) ? trimmed : '#';
+}
+
+// 行内语法。先把行内代码取出，避免其中的符号被当作强调或链接
+function renderInline(text) {
+  const codes = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code) => {
+    codes.push(`<code>${code}</code>`);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, url) => `<img src="${safeUrl(url)}" alt="${alt}">`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => `<a href="${safeUrl(url)}">${label}</a>`)
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*([^*]+)\*|(^|[^\w])_([^_]+)_(?!\w)/g, (match, a, prefix, b) => (
+      a !== undefined ? `<em>${a}</em>` : `${prefix}<em>${b}</em>`
+    ))
+    .replace(/~~([^~]+)~~/g, '<del>$1</del>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => codes[Number(index)]);
+}
+
+const BLOCK_START = /^(#{1,6}\s|>\s?|```|\s*([-*+]|\d+[.)])\s|(\*\s*){3,}$|(-\s*){3,}$)/;
+
+function renderMarkdown(markdown) {
+  const lines = String(markdown).replace(/\r\n/g, '\n').split('\n');
+  const blocks = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('```')) {
+      const code = [];
+      for (i++; i < lines.length && !lines[i].startsWith('```'); i++) {
+        code.push(lines[i]);
+      }
+      i++;
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^((\*\s*){3,}|(-\s*){3,}|(_\s*){3,})$/.test(line.trim())) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^>\s?/.test(line)) {
+      const quoted = [];
+      for (; i < lines.length && /^>\s?/.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(/^>\s?/, ''));
+      }
+      blocks.push(`<blockquote>${renderMarkdown(quoted.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item && /\d/.test(item[1]) === ordered) {
+          const task = item[2].match(/^\[([ xX])\]\s+(.*)$/);
+          items.push(task
+            ? `<li><input type="checkbox" disabled${task[1] === ' ' ? '' : ' checked'}> ${renderInline(task[2])}</li>`
+            : `<li>${renderInline(item[2])}</li>`);
+        } else if (items.length > 0 && /^\s+\S/.test(lines[i])) {
+          // 缩进的续行属于上一项
+          items[items.length - 1] = items[items.length - 1].replace(/<\/li>$/, ` ${renderInline(lines[i].trim())}</li>`);
+        } else {
+          break;
+        }
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    const paragraph = [];
+    for (; i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !BLOCK_START.test(lines[i])); i++) {
+      paragraph.push(renderInline(lines[i]));
+    }
+    blocks.push(`<p>${paragraph.join('<br>\n')}</p>`);
+  }
+  return blocks.join('\n');
+}
+
+module.exports = { renderMarkdown, escapeHtml };
@@ -0,0 +1,251 @@
+// 全文搜索 - 保存在内存中的倒排索引。
+// 中日韩文字按相邻两字（bigram）切分，其他文字按单词切分；索引记录每个词在日记中的位置，
+// 用于短语匹配，结果按 BM25 得分排序，并为每条结果生成带高亮位置的摘要
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}';
+const CJK_PATTERN = new RegExp(`[${CJK_CHARS}]`, 'u');
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+// 把一段连续的文字拆成中日韩文字段和其他文字段，例如 "hello世界" => "hello"、"世界"
+const SEGMENT_PATTERN = new RegExp(`[${CJK_CHARS}]+|[^${CJK_CHARS}]+`, 'gu');
+
+// BM25 参数
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 120;
+// 摘要中第一个匹配之前保留的字数
+const SNIPPET_LEAD = 30;
+
+function normalizeWord(word) {
+  return word.normalize('NFKC').toLowerCase();
+}
+
+// 切分文本，返回 { token, start, end }，start / end 为词在原文中的位置，数组下标即词的位置序号。
+// 中日韩文字段只有一个字时直接作为一个词
+function tokenize(text) {
+  const tokens = [];
+  for (const word of String(text).matchAll(WORD_PATTERN)) {
+    let offset = word.index;
+    for (const segment of word[0].match(SEGMENT_PATTERN)) {
+      if (!CJK_PATTERN.test(segment)) {
+        tokens.push({ token: normalizeWord(segment), start: offset, end: offset + segment.length });
+      } else {
+        const chars = Array.from(segment);
+        const starts = [];
+        chars.reduce((position, char) => {
+          starts.push(position);
+          return position + char.length;
+        }, offset);
+        starts.push(offset + segment.length);
+        if (chars.length === 1) {
+          tokens.push({ token: chars[0], start: starts[0], end: starts[1] });
+        }
+        for (let i = 0; i + 1 < chars.length; i++) {
+          tokens.push({ token: chars[i] + chars[i + 1], start: starts[i], end: starts[i + 2] });
+        }
+      }
+      offset += segment.length;
+    }
+  }
+  return tokens;
+}
+
+// 解析查询：空格分隔的每一项都必须匹配；双引号括起的部分是短语，其中的词必须连续出现。
+// 中日韩文字本身按短语处理，例如"天气很好"要求 天气、气很、很好 连续出现。
+// 查询末尾没有空格时，最后一个非中日韩的词按前缀匹配，方便边输入边搜索
+function parseQuery(query) {
+  const terms = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  for (const match of String(query).matchAll(pattern)) {
+    const tokens = tokenize(match[1] ?? match[2]).map(({ token }) => token);
+    if (tokens.length > 0) {
+      terms.push({ tokens, phrase: match[1] !== undefined, prefix: false });
+    }
+  }
+  const last = terms[terms.length - 1];
+  if (last && !last.phrase && !/\s$/.test(query) && !CJK_PATTERN.test(last.tokens[last.tokens.length - 1])) {
+    last.prefix = true;
+  }
+  return terms;
+}
+
+function createSearchIndex() {
+  // 词 => (日记 id => 词在该日记中出现的位置)
+  const postings = new Map();
+  // 日记 id => 词数和包含的词，删除或更新日记时据此清理 postings
+  const documents = new Map();
+  let totalLength = 0;
+
+  function remove(id) {
+    const document = documents.get(id);
+    if (!document) return;
+    document.tokens.forEach(token => {
+      const docs = postings.get(token);
+      docs.delete(id);
+      if (docs.size === 0) {
+        postings.delete(token);
+      }
+    });
+    totalLength -= document.length;
+    documents.delete(id);
+  }
+
+  // 添加或更新一篇日记
+  function add(entry) {
+    remove(entry.id);
+    const tokens = tokenize(entry.content);
+    tokens.forEach(({ token }, position) => {
+      if (!postings.has(token)) {
+        postings.set(token, new Map());
+      }
+      const docs = postings.get(token);
+      if (!docs.has(entry.id)) {
+        docs.set(entry.id, []);
+      }
+      docs.get(entry.id).push(position);
+    });
+    documents.set(entry.id, { length: tokens.length, tokens: new Set(tokens.map(({ token }) => token)) });
+    totalLength += tokens.length;
+  }
+
+  function rebuild(entries) {
+    postings.clear();
+    documents.clear();
+    totalLength = 0;
+    entries.forEach(add);
+  }
+
+  // 查询中的一个词可能对应索引中的多个词：前缀匹配的单词，以及单个中日韩文字
+  // （索引中只有一个字的文字段才会单独成词，其余都包含在 bigram 中）
+  function expandToken(token, prefix) {
+    const isSingleCjk = Array.from(token).length === 1 && CJK_PATTERN.test(token);
+    if (!prefix && !isSingleCjk) {
+      return postings.has(token) ? [token] : [];
+    }
+    return [...postings.keys()].filter(key => (
+      isSingleCjk ? key.includes(token) : key.startsWith(token)
+    ));
+  }
+
+  // 一个词在各篇日记中出现的位置，展开后的多个词合并在一起
+  function tokenPositions(token, prefix) {
+    const result = new Map();
+    expandToken(token, prefix).forEach(key => {
+      postings.get(key).forEach((positions, id) => {
+        result.set(id, [...(result.get(id) || []), ...positions]);
+      });
+    });
+    return result;
+  }
+
+  // 查询项在各篇日记中出现的次数：每个词依次紧接在前一个词之后才算一次
+  function termFrequencies(term) {
+    const lists = term.tokens.map((token, index) => (
+      tokenPositions(token, term.prefix && index === term.tokens.length - 1)
+    ));
+    const frequencies = new Map();
+    lists[0].forEach((firstPositions, id) => {
+      const rest = lists.slice(1).map(list => list.get(id));
+      if (rest.some(positions => !positions)) return;
+      const restSets = rest.map(positions => new Set(positions));
+      const count = firstPositions.filter(position => (
+        restSets.every((positions, offset) => positions.has(position + offset + 1))
+      )).length;
+      if (count > 0) {
+        frequencies.set(id, count);
+      }
+    });
+    return frequencies;
+  }
+
+  // 返回匹配全部查询项的日记 id 和得分，按得分从高到低排序
+  function search(query) {
+    const terms = parseQuery(query);
+    if (terms.length === 0 || documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = totalLength / documents.size || 1;
+    let scores = null;
+    for (const term of terms) {
+      const frequencies = termFrequencies(term);
+      const idf = Math.log(1 + (documents.size - frequencies.size + 0.5) / (frequencies.size + 0.5));
+      const termScores = new Map();
+      frequencies.forEach((frequency, id) => {
+        if (scores && !scores.has(id)) return;
+        const lengthRatio = documents.get(id).length / averageLength;
+        const weight = idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * lengthRatio));
+        termScores.set(id, (scores ? scores.get(id) : 0) + weight);
+      });
+      scores = termScores;
+      if (scores.size === 0) break;
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? 1 : -1));
+  }
+
+  return { add, remove, rebuild, search };
+}
+
+// 在 text 中找出查询匹配的位置，截取第一处匹配附近的一段作为摘要。
+// 返回 { text, highlights }，highlights 为摘要中需要高亮的 [开始, 结束) 位置
+function createSnippet(text, query) {
+  const content = String(text);
+  const tokens = tokenize(content);
+  const ranges = [];
+  parseQuery(query).forEach(term => {
+    // 单个中日韩文字只高亮这个字本身，而不是包含它的整个 bigram
+    const [single] = term.tokens;
+    if (term.tokens.length === 1 && Array.from(single).length === 1 && CJK_PATTERN.test(single)) {
+      for (let index = content.indexOf(single); index !== -1; index = content.indexOf(single, index + single.length)) {
+        ranges.push([index, index + single.length]);
+      }
+      return;
+    }
+    const matchesAt = (position, index) => {
+      const token = tokens[position + index];
+      const expected = term.tokens[index];
+      if (!token) return false;
+      if (term.prefix && index === term.tokens.length - 1) return token.token.startsWith(expected);
+      if (Array.from(expected).length === 1 && CJK_PATTERN.test(expected)) return token.token.includes(expected);
+      return token.token === expected;
+    };
+    tokens.forEach((token, position) => {
+      if (term.tokens.every((_, index) => matchesAt(position, index))) {
+        ranges.push([token.start, tokens[position + term.tokens.length - 1].end]);
+      }
+    });
+  });
+
+  // 合并重叠的高亮（相邻的 bigram 互相重叠）
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged = [];
+  ranges.forEach(([start, end]) => {
+    const previous = merged[merged.length - 1];
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  let start = merged.length > 0 ? Math.max(0, merged[0][0] - SNIPPET_LEAD) : 0;
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, Math.min(start, end - SNIPPET_LENGTH));
+  // 不在代理对中间截断
+  if (/[\uDC00-\uDFFF]/.test(content[start] || '')) start--;
+  if (/[\uDC00-\uDFFF]/.test(content[end] || '')) end++;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: prefix + content.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights: merged
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart + shift, rangeEnd + shift])
+  };
+}
+
+module.exports = { createSearchIndex, createSnippet };
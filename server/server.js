@@ -1,246 +1,2813 @@
 // Node.js 后端服务器 - 处理数据文件读写
 const express = require('express');
 const fs = require('fs').promises;
+const crypto = require('crypto');
 const path = require('path');
+const util = require('util');
+const { AsyncLocalStorage } = require('async_hooks');
 const cors = require('cors');
+const { createJsonStorage } = require('./storage/jsonStorage');
+const { createSqliteStorage } = require('./storage/sqliteStorage');
+const { createMarkdownStorage } = require('./storage/markdownStorage');
+const { matchesFilter } = require('./storage/entryQuery');
+const { createSearchIndex, createSnippet } = require('./search/searchIndex');
+const { loadConfig, STORAGE_BACKENDS } = require('./config');
+const { buildMarkdownArchive, buildHtmlSite } = require('./export/diaryExport');
+const { createZipArchive } = require('./export/zipArchive');
+const { createAttachmentStore } = require('./attachments/attachmentStore');
+const { parseMultipart } = require('./attachments/multipart');
+const { MAX_TAG_LENGTH, isValidTag, isValidTagList, replaceHashtag } = require('./tags/hashtags');
+const { summarizeEntries } = require('./stats/entryStats');
+
+// 端口、监听地址、数据目录、跨域来源和存储后端见 config.js。
+// 被基准测试等脚本引用时不读取命令行参数
+let serverConfig;
+try {
+  serverConfig = loadConfig(require.main === module ? process.argv.slice(2) : []);
+} catch (error) {
+  console.error('读取配置失败:', error.message);
+  process.exit(1);
+}
+const { config } = serverConfig;
 
 const app = express();
-const PORT = 3001;
+const PORT = config.port;
+const HOST = config.host;
+const CORS_ORIGINS = config.corsOrigins;
+
+// 构建后的前端页面（npm run build），由本服务器一并提供
+const DIST_DIR = path.join(__dirname, '../dist');
+
+// 中间件
+app.use(cors({ origin: CORS_ORIGINS }));
+// 导入的备份中带有照片附件，请求体可能较大
+app.use(express.json({ limit: '200mb' }));
+
+// 数据文件路径：用户账户和登录会话保存在 DATA_DIR 中，
+// 每个用户的日记、设置、备份等保存在各自的数据目录 profiles/<用户 id>/ 中
+const DATA_DIR = config.dataDir;
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const PROFILES_DIR = path.join(DATA_DIR, 'profiles');
+
+// 日记的存储后端：json（entries.json 加修改日志 entries.log，默认）、sqlite（entries.db）
+// 或 markdown（entries/ 文件夹，每篇日记一个 .md 文件）
+const STORAGE_BACKEND = config.storageBackend;
+
+// 回收站：每小时清理一次超过保留天数的记录
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 快照保留策略的默认值（可在设置中修改）：每天、每周、每月各保留多少份
+const DEFAULT_BACKUP_RETENTION = {
+  daily: 7,
+  weekly: 4,
+  monthly: 6
+};
+
+// 启用加密后，无操作多少分钟自动锁定（0 表示不自动锁定）
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// 默认的心情刻度，按显示顺序排列。value 保存在日记中，score 用于统计平均心情（越大越好）
+const DEFAULT_MOOD_SCALE = [
+  { value: 'amazing', label: '超棒', emoji: '🤩', color: '#10B981', score: 5 },
+  { value: 'happy', label: '开心', emoji: '😊', color: '#F59E0B', score: 4 },
+  { value: 'neutral', label: '平静', emoji: '😐', color: '#6B7280', score: 3 },
+  { value: 'sad', label: '难过', emoji: '😢', color: '#3B82F6', score: 2 },
+  { value: 'awful', label: '糟糕', emoji: '😰', color: '#EF4444', score: 1 }
+];
+
+const DEFAULT_SETTINGS = {
+  theme: 'light',
+  autoSave: true,
+  showMoodOnCalendar: true,
+  customTexts: {
+    appTitle: '生活记录器',
+    appSubtitle: '记录美好时刻，追踪心情变化，反思人生旅程',
+    heroTitle: '你的生活，你的故事',
+    heroSubtitle: '记录美好时刻，追踪心情变化，反思人生旅程',
+    startButtonText: '开始写作'
+  },
+  backupRetention: DEFAULT_BACKUP_RETENTION,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  savedSearches: [],
+  // 心情刻度，只能通过 /api/moods 修改（修改时同时更新使用了被删除心情的日记）
+  moodScale: DEFAULT_MOOD_SCALE,
+  // 加密参数（盐、迭代次数和用于校验口令的密文），未启用加密时为 null。
+  // 只能通过 /api/encryption/data 修改
+  encryption: null,
+  autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES
+};
+
+// 每个用户的数据文件：文件名 -> [默认值, 版本信封中的字段名]。
+// 它们会被一起快照、恢复，并按此顺序加锁
+const DATA_FILES = {
+  'entries.json': [[], 'entries'],
+  'settings.json': [DEFAULT_SETTINGS, 'settings'],
+  'revisions.json': [{}, 'revisions'],
+  'trash.json': [[], 'trash']
+};
+
+// 用户数据目录中的数据文件：文件名 -> [路径, 默认值, 版本信封中的字段名]
+function dataFilesIn(dataDir) {
+  return Object.fromEntries(Object.entries(DATA_FILES).map(([file, definition]) => (
+    [file, [path.join(dataDir, file), ...definition]]
+  )));
+}
+
+// 当前的数据格式版本。数据文件以 { schemaVersion, <字段名>: 数据 } 的信封保存，
+// 没有信封的旧文件视为版本 1
+const CURRENT_SCHEMA_VERSION = 6;
+
+// 数据格式迁移：每一步把数据集从 version - 1 升级到 version。
+// 数据集是 { entries, settings, revisions, trash } 的一部分（例如导入的备份只有 entries 和 settings），
+// 迁移需要跳过不存在的字段
+const MIGRATIONS = [
+  {
+    version: 2,
+    description: '数据文件加上版本信封，补全设置中后来新增的字段',
+    migrate: dataset => {
+      if (!isPlainObject(dataset.settings)) return dataset;
+      const { settings } = dataset;
+      return {
+        ...dataset,
+        settings: {
+          ...DEFAULT_SETTINGS,
+          ...settings,
+          customTexts: { ...DEFAULT_SETTINGS.customTexts, ...settings.customTexts },
+          backupRetention: { ...DEFAULT_BACKUP_RETENTION, ...settings.backupRetention }
+        }
+      };
+    }
+  },
+  {
+    version: 3,
+    description: '日记 ID 改为 ULID，同时更新回收站和历史版本中的引用',
+    migrate: dataset => {
+      const migrateEntry = entry => (isPlainObject(entry) && typeof entry.id === 'string'
+        ? { ...entry, id: resolveEntryId(entry.id) }
+        : entry);
+      const result = { ...dataset };
+      if (Array.isArray(dataset.entries)) {
+        result.entries = dataset.entries.map(migrateEntry);
+      }
+      if (Array.isArray(dataset.trash)) {
+        result.trash = dataset.trash.map(migrateEntry);
+      }
+      if (isPlainObject(dataset.revisions)) {
+        result.revisions = Object.fromEntries(Object.entries(dataset.revisions).map(([entryId, history]) => [
+          resolveEntryId(entryId),
+          Array.isArray(history) ? history.map(item => ({ ...item, entryId: resolveEntryId(entryId) })) : history
+        ]));
+      }
+      return result;
+    }
+  },
+  {
+    version: 4,
+    description: '设置中增加保存的搜索',
+    migrate: dataset => {
+      if (!isPlainObject(dataset.settings)) return dataset;
+      return { ...dataset, settings: { savedSearches: [], ...dataset.settings } };
+    }
+  },
+  {
+    version: 5,
+    description: '设置中增加加密参数和自动锁定时间',
+    migrate: dataset => {
+      if (!isPlainObject(dataset.settings)) return dataset;
+      return {
+        ...dataset,
+        settings: { encryption: null, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES, ...dataset.settings }
+      };
+    }
+  },
+  {
+    version: 6,
+    description: '设置中增加心情刻度',
+    migrate: dataset => {
+      if (!isPlainObject(dataset.settings)) return dataset;
+      return { ...dataset, settings: { moodScale: DEFAULT_MOOD_SCALE, ...dataset.settings } };
+    }
+  }
+];
+
+// 每条日记最多保留的历史版本数
+const MAX_REVISIONS_PER_ENTRY = 100;
+
+// 定时备份：每小时检查一次，距上次定时快照超过一天则创建新快照
+const BACKUP_CHECK_INTERVAL = 60 * 60 * 1000;
+const SCHEDULED_BACKUP_INTERVAL = 24 * 60 * 60 * 1000;
+
+// 数据文件损坏错误：文件无法解析且没有可用备份时抛出，阻止任何覆盖写入
+class DataFileCorruptedError extends Error {
+  constructor(issue) {
+    super(`Data file is corrupted: ${issue.file}`);
+    this.name = 'DataFileCorruptedError';
+    this.issue = issue;
+  }
+}
+
+// 数据文件的格式版本比当前程序支持的更新（例如程序被回退到旧版本），既不能读取也不能覆盖
+class UnsupportedSchemaError extends Error {
+  constructor(source, schemaVersion) {
+    super(`${source} uses schema version ${schemaVersion}, but only up to ${CURRENT_SCHEMA_VERSION} is supported`);
+    this.name = 'UnsupportedSchemaError';
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+// 数据文件异常记录（所有用户）：文件路径 -> { file, status, message, quarantinedAs, recoveredFrom, detectedAt }
+// status 为 'corrupted' 时该文件的读写都会被拒绝，为 'recovered' 时仅作提示
+const dataFileIssues = new Map();
+
+// 确保数据目录存在
+async function ensureDataDirectory(dirPath) {
+  try {
+    await fs.access(dirPath);
+  } catch (error) {
+    await fs.mkdir(dirPath, { recursive: true });
+  }
+  await removeStaleTempFiles(dirPath);
+}
+
+// 清理上次异常退出时遗留的临时文件
+async function removeStaleTempFiles(dirPath) {
+  const files = await fs.readdir(dirPath);
+  await Promise.all(files
+    .filter(file => file.endsWith('.tmp'))
+    .map(file => fs.unlink(path.join(dirPath, file)).catch(() => {})));
+}
+
+// 每个文件一个写入队列，保证读-改-写操作按到达顺序依次执行
+const fileQueues = new Map();
+
+function withFileLock(filePath, task) {
+  const previous = fileQueues.get(filePath) || Promise.resolve();
+  const run = previous.then(task);
+  const tail = run.catch(() => {});
+  fileQueues.set(filePath, tail);
+  tail.then(() => {
+    if (fileQueues.get(filePath) === tail) {
+      fileQueues.delete(filePath);
+    }
+  });
+  return run;
+}
+
+// 同时持有多个文件的锁。始终按 DATA_FILES 中的顺序加锁，避免两个操作互相等待
+function withFileLocks(filePaths, task) {
+  const order = Object.keys(DATA_FILES);
+  return [...filePaths]
+    .sort((a, b) => order.indexOf(path.basename(a)) - order.indexOf(path.basename(b)))
+    .reduceRight((next, filePath) => () => withFileLock(filePath, next), task)();
+}
+
+// 检查数据内容是否符合预期的结构（数组或对象）
+function matchesExpectedShape(data, defaultValue) {
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(data);
+  }
+  if (defaultValue && typeof defaultValue === 'object') {
+    return data !== null && typeof data === 'object' && !Array.isArray(data);
+  }
+  return true;
+}
+
+// 根据路径查找数据文件的定义 [文件名, [路径, 默认值, 字段名]]，不是用户数据目录中的数据文件时返回 undefined
+function findDataFile(filePath) {
+  const dataDir = path.dirname(filePath);
+  if (path.dirname(dataDir) !== PROFILES_DIR) return undefined;
+  return Object.entries(dataFilesIn(dataDir)).find(([, [dataPath]]) => dataPath === filePath);
+}
+
+// 读取内容的格式版本，没有版本信封的旧格式为版本 1
+function getSchemaVersion(content) {
+  const isEnvelope = content !== null && typeof content === 'object' && !Array.isArray(content) &&
+    Number.isInteger(content.schemaVersion);
+  return isEnvelope ? content.schemaVersion : 1;
+}
+
+// 依次执行迁移，把数据集从 fromVersion 升级到当前版本
+function migrateDataset(dataset, fromVersion, source) {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaError(source, fromVersion);
+  }
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((data, migration) => migration.migrate(data), dataset);
+}
+
+// 解析数据文件的内容：拆开版本信封，校验结构后把旧版本的数据迁移到当前版本
+function decodeDataFile(file, content) {
+  const [defaultValue, key] = DATA_FILES[file];
+  const schemaVersion = getSchemaVersion(content);
+  const data = schemaVersion === 1 ? content : content[key];
+  if (!matchesExpectedShape(data, defaultValue)) {
+    throw new Error('Unexpected data structure');
+  }
+  return migrateDataset({ [key]: data }, schemaVersion, file)[key];
+}
+
+// 数据文件写入时加上版本信封，其他 JSON 文件（如快照清单）原样写入
+function encodeDataFile(filePath, data) {
+  const dataFile = findDataFile(filePath);
+  if (!dataFile) return data;
+  const [, [, , key]] = dataFile;
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, [key]: data };
+}
+
+// 如果文件已被标记为损坏则抛出错误
+function assertFileUsable(filePath) {
+  const issue = dataFileIssues.get(filePath);
+  if (issue && issue.status === 'corrupted') {
+    throw new DataFileCorruptedError(issue);
+  }
+}
+
+// 读取JSON文件：文件不存在时返回默认值；内容损坏时隔离并尝试从备份恢复
+async function readJSONFile(filePath, defaultValue = null) {
+  assertFileUsable(filePath);
+
+  let raw;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return defaultValue;
+    }
+    throw error;
+  }
+
+  const dataFile = findDataFile(filePath);
+  try {
+    const content = JSON.parse(raw);
+    if (dataFile) {
+      return decodeDataFile(dataFile[0], content);
+    }
+    if (!matchesExpectedShape(content, defaultValue)) {
+      throw new Error('Unexpected data structure');
+    }
+    return content;
+  } catch (error) {
+    // 版本过新的文件并没有损坏，不能用备份覆盖它
+    if (error instanceof UnsupportedSchemaError) throw error;
+    return recoverCorruptedFile(filePath, error);
+  }
+}
+
+// 将损坏的文件复制到同一目录下的隔离目录，原文件保留在原处直到被恢复或重置
+async function quarantineFile(filePath) {
+  const quarantineDir = path.join(path.dirname(filePath), 'quarantine');
+  await fs.mkdir(quarantineDir, { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const quarantinedAs = path.join(quarantineDir, `${path.basename(filePath)}.${stamp}.corrupt`);
+  await fs.copyFile(filePath, quarantinedAs);
+  return quarantinedAs;
+}
+
+// 读取并校验一个备份文件（旧版本会被迁移到当前格式），不存在、同样损坏或版本过新时返回 undefined
+async function readBackupFile(backupPath, file) {
+  try {
+    const content = JSON.parse(await fs.readFile(backupPath, 'utf8'));
+    return DATA_FILES[file] ? decodeDataFile(file, content) : content;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// 查找最近一次完好的备份：先尝试 .bak，数据文件再按时间倒序尝试各个快照
+async function readBackup(filePath) {
+  const file = path.basename(filePath);
+  const candidates = [[`${file}.bak`, `${filePath}.bak`]];
+  if (findDataFile(filePath)) {
+    const backupDir = path.join(path.dirname(filePath), 'backups');
+    for (const snapshot of await listSnapshots(backupDir)) {
+      candidates.push([`backups/${snapshot.id}/${file}`, path.join(backupDir, snapshot.id, file)]);
+    }
+  }
+
+  for (const [source, backupPath] of candidates) {
+    const data = await readBackupFile(backupPath, file);
+    if (data !== undefined) {
+      return { source, data };
+    }
+  }
+  return undefined;
+}
+
+async function recoverCorruptedFile(filePath, cause) {
+  const file = path.basename(filePath);
+  console.error(`Data file is corrupted: ${filePath}`, cause.message);
+
+  const quarantinedAs = path.relative(path.dirname(filePath), await quarantineFile(filePath));
+  const backup = await readBackup(filePath);
+
+  if (backup && await writeJSONFile(filePath, backup.data, { backup: false })) {
+    dataFileIssues.set(filePath, {
+      file,
+      status: 'recovered',
+      message: `${file} 已损坏，已从最近的备份恢复`,
+      quarantinedAs,
+      recoveredFrom: backup.source,
+      detectedAt: new Date().toISOString()
+    });
+    console.log(`♻️  已从 ${backup.source} 恢复 ${file}，损坏文件已隔离到 ${quarantinedAs}`);
+    return backup.data;
+  }
+
+  const issue = {
+    file,
+    status: 'corrupted',
+    message: `${file} 已损坏且没有可用的备份，已暂停写入以防覆盖`,
+    quarantinedAs,
+    detectedAt: new Date().toISOString()
+  };
+  dataFileIssues.set(filePath, issue);
+  throw new DataFileCorruptedError(issue);
+}
+
+// 写入JSON文件：先写临时文件并 fsync，再原子地重命名覆盖目标文件，
+// 这样进程在写入途中崩溃也不会留下被截断的数据文件。
+// 覆盖前会把当前文件复制为 .bak，作为损坏时的恢复来源；
+// force 用于导入或重置等明确要覆盖损坏文件的操作
+async function writeJSONFile(filePath, data, { backup = true, force = false } = {}) {
+  const replacingCorrupted = dataFileIssues.get(filePath)?.status === 'corrupted';
+  if (replacingCorrupted && !force) {
+    assertFileUsable(filePath);
+  }
+
+  const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+  let handle = null;
+  try {
+    // 损坏的内容已保留在隔离目录中，不能用它覆盖 .bak
+    if (backup && !replacingCorrupted) {
+      await fs.copyFile(filePath, `${filePath}.bak`).catch(error => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+    handle = await fs.open(tempPath, 'w');
+    await handle.writeFile(JSON.stringify(encodeDataFile(filePath, data), null, 2), 'utf8');
+    await handle.sync();
+    await handle.close();
+    handle = null;
+    await fs.rename(tempPath, filePath);
+    await syncDirectory(path.dirname(filePath));
+    if (replacingCorrupted) {
+      dataFileIssues.delete(filePath);
+    }
+    return true;
+  } catch (error) {
+    console.error(`Error writing file: ${filePath}`, error);
+    if (handle) {
+      await handle.close().catch(() => {});
+    }
+    await fs.unlink(tempPath).catch(() => {});
+    return false;
+  }
+}
+
+// 同步目录项，确保重命名本身已落盘（Windows 不支持打开目录，忽略即可）
+async function syncDirectory(dirPath) {
+  let handle = null;
+  try {
+    handle = await fs.open(dirPath, 'r');
+    await handle.sync();
+  } catch (error) {
+    // 部分平台不支持对目录 fsync
+  } finally {
+    if (handle) {
+      await handle.close().catch(() => {});
+    }
+  }
+}
+
+// ===== 自动备份 =====
+
+// 同时持有当前用户所有数据文件的锁，保证快照与恢复看到一致的数据
+function withAllFileLocks(task) {
+  return withFileLocks(Object.values(currentProfile().dataFiles).map(([filePath]) => filePath), task);
+}
+
+function isValidSnapshotId(id) {
+  return /^[\w-]+$/.test(id);
+}
+
+// 列出所有快照，按创建时间倒序
+async function listSnapshots(backupDir = currentProfile().backupDir) {
+  let ids;
+  try {
+    ids = await fs.readdir(backupDir);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const snapshots = [];
+  for (const id of ids.filter(isValidSnapshotId)) {
+    try {
+      const manifest = JSON.parse(await fs.readFile(path.join(backupDir, id, 'backup.json'), 'utf8'));
+      snapshots.push({ ...manifest, id });
+    } catch (error) {
+      // 没有清单的目录不是完整的快照，忽略
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function copyFileIfExists(source, target) {
+  try {
+    await fs.copyFile(source, target);
+    return true;
+  } catch (error) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+// 创建快照，调用方需持有所有数据文件的锁
+async function createSnapshotUnlocked(reason) {
+  const { attachments, backupDir, dataFiles, entriesFile, storage } = currentProfile();
+  const createdAt = new Date().toISOString();
+  const id = `${createdAt.replace(/[:.]/g, '-')}-${reason}`;
+  const snapshotDir = path.join(backupDir, id);
+  await fs.mkdir(snapshotDir, { recursive: true });
+
+  let size = 0;
+  const files = [];
+  for (const [file, [filePath]] of Object.entries(dataFiles)) {
+    // 日记由存储后端导出，不论使用哪种后端，快照中都是 entries.json
+    const targetPath = path.join(snapshotDir, file);
+    const saved = filePath === entriesFile
+      ? await storage.exportTo(targetPath)
+      : await copyFileIfExists(filePath, targetPath);
+    if (saved) {
+      size += (await fs.stat(targetPath)).size;
+      files.push(file);
+    }
+  }
+  // 附件以硬链接保存，与数据目录共用磁盘空间，不计入快照大小
+  const attachmentCount = await attachments.snapshotTo(path.join(snapshotDir, 'attachments'));
+
+  // 清单最后写入，有清单的目录才算完整快照
+  const manifest = { id, createdAt, reason, files, size, attachments: attachmentCount };
+  await writeJSONFile(path.join(snapshotDir, 'backup.json'), manifest, { backup: false });
+  return manifest;
+}
+
+async function createSnapshot(reason) {
+  const manifest = await withAllFileLocks(() => createSnapshotUnlocked(reason));
+  await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
+  return manifest;
+}
+
+async function getBackupRetention() {
+  try {
+    const settings = await readJSONFile(currentProfile().settingsFile, DEFAULT_SETTINGS);
+    return { ...DEFAULT_BACKUP_RETENTION, ...settings.backupRetention };
+  } catch (error) {
+    return DEFAULT_BACKUP_RETENTION;
+  }
+}
+
+// ISO 周的标识，例如 2025-W05
+function getWeekKey(date) {
+  const day = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday);
+  const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((day - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+// 按"祖父-父-子"策略轮换快照：最近一天内的快照全部保留，
+// 此外每天、每周、每月各保留最新的一份，数量由保留策略决定
+async function pruneSnapshots() {
+  const retention = await getBackupRetention();
+  const snapshots = await listSnapshots();
+  const now = Date.now();
+  const keep = new Set();
+
+  const generations = [
+    [retention.daily, date => date.toDateString()],
+    [retention.weekly, getWeekKey],
+    [retention.monthly, date => `${date.getFullYear()}-${date.getMonth() + 1}`]
+  ];
+  for (const [limit, keyOf] of generations) {
+    const seen = new Set();
+    for (const snapshot of snapshots) {
+      const key = keyOf(new Date(snapshot.createdAt));
+      if (seen.has(key)) continue;
+      if (seen.size >= limit) break;
+      seen.add(key);
+      keep.add(snapshot.id);
+    }
+  }
+
+  for (const snapshot of snapshots) {
+    if (now - new Date(snapshot.createdAt).getTime() < SCHEDULED_BACKUP_INTERVAL) {
+      keep.add(snapshot.id);
+    }
+  }
+
+  for (const snapshot of snapshots) {
+    if (!keep.has(snapshot.id)) {
+      await fs.rm(path.join(currentProfile().backupDir, snapshot.id), { recursive: true, force: true });
+    }
+  }
+}
+
+async function runScheduledBackup() {
+  // 数据文件损坏期间不创建定时快照，避免损坏的数据挤掉完好的旧快照
+  if (currentDataFileIssues().some(([, issue]) => issue.status === 'corrupted')) {
+    return;
+  }
+  try {
+    const snapshots = await listSnapshots();
+    const lastScheduled = snapshots.find(snapshot => snapshot.reason === 'scheduled');
+    if (lastScheduled && Date.now() - new Date(lastScheduled.createdAt).getTime() < SCHEDULED_BACKUP_INTERVAL) {
+      return;
+    }
+    const manifest = await createSnapshot('scheduled');
+    console.log(`💾 已创建定时备份 ${manifest.id}`);
+  } catch (error) {
+    console.error('Error creating scheduled backup:', error);
+  }
+}
+
+// 统一处理路由错误：数据文件损坏时返回 503 和错误详情，便于前端提示用户
+function sendRouteError(res, error, message) {
+  if (error instanceof DataFileCorruptedError) {
+    return res.status(503).json({ error: message, code: 'DATA_CORRUPTED', issue: error.issue });
+  }
+  if (error instanceof UnsupportedSchemaError) {
+    return res.status(422).json({ error: message, code: 'UNSUPPORTED_SCHEMA', schemaVersion: error.schemaVersion });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+// 启动时检查数据文件是否完好
+async function checkDataFiles() {
+  for (const [filePath, defaultValue] of Object.values(currentProfile().dataFiles)) {
+    if (!isDataFileInUse(filePath)) continue;
+    try {
+      await readJSONFile(filePath, defaultValue);
+    } catch (error) {
+      if (!(error instanceof DataFileCorruptedError)) throw error;
+      console.error(`⚠️  ${error.issue.message}，损坏文件已隔离到 ${error.issue.quarantinedAs}`);
+    }
+  }
+}
+
+// ===== 日记 ID =====
+
+// 日记 ID 使用 ULID：48 位毫秒时间戳加 80 位随机数，以 Crockford Base32 编码为 26 个字符，
+// 按字符串排序即按创建时间排序
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+function encodeBase32(value, length) {
+  let encoded = '';
+  for (let i = 0; i < length; i++) {
+    encoded = ULID_ALPHABET[Number(value & 31n)] + encoded;
+    value >>= 5n;
+  }
+  return encoded;
+}
+
+function encodeUlid(time, random) {
+  return encodeBase32(BigInt(time), 10) + encodeBase32(random, 16);
+}
+
+function isUlid(id) {
+  return typeof id === 'string' && ULID_PATTERN.test(id);
+}
+
+// 同一毫秒内（或系统时钟回拨时）沿用上一个时间戳并把随机部分加一，保证生成的 ID 严格递增
+let lastUlidTime = 0;
+let lastUlidRandom = 0n;
+function generateEntryId() {
+  const now = Date.now();
+  if (now > lastUlidTime) {
+    lastUlidTime = now;
+    lastUlidRandom = BigInt(`0x${crypto.randomBytes(10).toString('hex')}`);
+  } else {
+    lastUlidRandom += 1n;
+  }
+  return encodeUlid(lastUlidTime, lastUlidRandom);
+}
+
+// 把旧的 ID（Date.now() 生成的时间戳等）换算为 ULID。结果只由旧 ID 决定，
+// 所以各数据文件分别迁移、旧备份之后再导入、旧客户端用旧 ID 发来的请求，得到的都是同一个新 ID
+function legacyIdToUlid(id) {
+  const time = /^\d{1,15}$/.test(id) && Number(id) < 2 ** 48 ? Number(id) : 0;
+  const hash = crypto.createHash('sha256').update(id).digest('hex').slice(0, 20);
+  return encodeUlid(time, BigInt(`0x${hash}`));
+}
+
+function resolveEntryId(id) {
+  return isUlid(id) ? id : legacyIdToUlid(id);
+}
+
+// ===== 数据格式迁移 =====
+
+// 启动时把旧版本的数据文件升级到当前格式，升级前先创建快照保留原始文件。
+// 需在 checkDataFiles 之后执行：损坏的文件已被恢复或标记，版本过新的文件已阻止启动
+async function migrateDataFiles() {
+  const outdated = [];
+  for (const [file, [filePath, defaultValue]] of Object.entries(currentProfile().dataFiles)) {
+    if (!isDataFileInUse(filePath) || dataFileIssues.get(filePath)?.status === 'corrupted') continue;
+    let content;
+    try {
+      content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') continue;
+      throw error;
+    }
+    const schemaVersion = getSchemaVersion(content);
+    if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+      outdated.push({ file, filePath, defaultValue, schemaVersion });
+    }
+  }
+  if (outdated.length === 0) {
+    return;
+  }
+
+  await withAllFileLocks(async () => {
+    const manifest = await createSnapshotUnlocked('pre-migration');
+    console.log(`💾 迁移前已创建备份 ${manifest.id}`);
+    for (const { file, filePath, defaultValue, schemaVersion } of outdated) {
+      const data = await readJSONFile(filePath, defaultValue);
+      if (!await writeJSONFile(filePath, data)) {
+        throw new Error(`Failed to migrate ${file}`);
+      }
+      console.log(`🔄 已将 ${file} 从版本 ${schemaVersion} 升级到版本 ${CURRENT_SCHEMA_VERSION}`);
+    }
+  });
+  await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
+}
+
+// ===== 日记存储 =====
+
+// 日记通过存储后端读写，两种后端实现相同的接口：
+// list() / get(id) / query(filter, { after, limit }) 读取日记，按日期倒序（日期相同时 id 较大的在前）；
+// create(entry) / update(entry) / delete(id) / replaceAll(entries, options) 写入，失败时返回 false；
+// exportTo(targetPath) 把全部日记以 entries.json 的格式写入快照。
+// 每个用户各有一个存储，无论使用哪种后端，修改日记时都以用户的 entries.json 路径作为锁的键。
+// Markdown 存储的文件可能在外部被修改，由 handleExternalChange 处理
+function createEntryStorage(backend, profile) {
+  switch (backend) {
+    case 'json':
+      return createJsonStorage({
+        filePath: profile.entriesFile,
+        logPath: profile.entriesLogFile,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        migrate: (entries, fromVersion) => migrateDataset({ entries }, fromVersion, 'entries.log').entries,
+        readJSONFile,
+        writeJSONFile
+      });
+    case 'sqlite':
+      return createSqliteStorage({
+        filename: profile.entriesDbFile,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        migrate: (entries, fromVersion) => migrateDataset({ entries }, fromVersion, 'entries.db').entries
+      });
+    case 'markdown':
+      return createMarkdownStorage({
+        dirPath: profile.entriesDir,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        migrate: (entries, fromVersion) => migrateDataset({ entries }, fromVersion, 'entries/').entries,
+        validate: validateEntry,
+        generateId: generateEntryId,
+        defaultMood: async () => defaultMoodOf(await readJSONFile(profile.settingsFile, DEFAULT_SETTINGS)),
+        onExternalChange: change => withProfile(profile, () => handleExternalChange(change))
+      });
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
+
+// 所有对日记的修改都经过存储后端，在这里统一同步到搜索索引
+function withSearchIndex(entryStorage, index) {
+  const indexAfter = (write, update) => async (...args) => {
+    const success = await write(...args);
+    if (success) {
+      update(...args);
+    }
+    return success;
+  };
+  return {
+    ...entryStorage,
+    create: indexAfter(entryStorage.create, entry => index.add(entry)),
+    update: indexAfter(entryStorage.update, entry => index.add(entry)),
+    delete: indexAfter(entryStorage.delete, id => index.remove(id)),
+    replaceAll: indexAfter(entryStorage.replaceAll, entries => index.rebuild(entries))
+  };
+}
+
+// 在服务器以外修改的日记（Markdown 文件）：更新搜索索引，通知已打开的页面，
+// 把修改前的版本记入历史，删除的日记移入回收站
+async function handleExternalChange({ type, entry, previous }) {
+  const { revisionsFile, searchIndex, trashFile } = currentProfile();
+  if (type === 'delete') {
+    searchIndex.remove(entry.id);
+  } else {
+    searchIndex.add(entry);
+  }
+  broadcastEvent('entries', { type, id: entry.id });
+  console.log(`📝 日记 ${entry.id} 在外部被${{ create: '新建', update: '修改', delete: '删除' }[type]}`);
+
+  if (type === 'update' && (previous.content !== entry.content || previous.mood !== entry.mood)) {
+    await withFileLock(revisionsFile, async () => {
+      const revisions = await readJSONFile(revisionsFile, {});
+      // 同时经由页面保存的版本可能已先记入历史，按保存时间排序
+      const history = [...(revisions[entry.id] || []), {
+        id: crypto.randomUUID(),
+        entryId: entry.id,
+        savedAt: entry.updatedAt,
+        content: previous.content,
+        mood: previous.mood
+      }].sort((a, b) => Date.parse(b.savedAt) - Date.parse(a.savedAt));
+      revisions[entry.id] = history.slice(0, MAX_REVISIONS_PER_ENTRY);
+      if (!await writeJSONFile(revisionsFile, revisions)) {
+        console.error(`Failed to record revision of ${entry.id}`);
+      }
+    });
+  } else if (type === 'delete') {
+    await withFileLock(trashFile, async () => {
+      const trash = await readJSONFile(trashFile, []);
+      trash.unshift({ ...entry, deletedAt: new Date().toISOString() });
+      if (!await writeJSONFile(trashFile, trash)) {
+        console.error(`Failed to move ${entry.id} to trash`);
+      }
+    });
+  }
+}
+
+// 从存储中重建搜索索引；日记数据不可用（损坏）时索引为空，恢复后由 replaceAll 重建
+async function rebuildSearchIndex() {
+  const { searchIndex, storage } = currentProfile();
+  try {
+    searchIndex.rebuild(await storage.list());
+  } catch (error) {
+    console.error('Error building search index:', error.message);
+  }
+}
+
+// 使用 SQLite 后端时 entries.json 不再使用，启动检查和格式迁移都跳过它
+function isDataFileInUse(filePath) {
+  const { entriesFile, storage } = currentProfile();
+  return filePath !== entriesFile || storage.backend === 'json';
+}
+
+// 写入数据文件，日记交给存储后端
+function writeDataFile(filePath, data, options) {
+  const { entriesFile, storage } = currentProfile();
+  return filePath === entriesFile ? storage.replaceAll(data, options) : writeJSONFile(filePath, data, options);
+}
+
+// ===== 用户数据 =====
+
+// 每个用户一份数据：数据目录、日记存储和搜索索引。处理请求时由登录检查设置当前用户，
+// 请求中的读写都通过 currentProfile() 找到该用户的文件；后台任务用 forEachProfile 依次处理每个用户
+const profileContext = new AsyncLocalStorage();
+// 用户 id -> 已打开的用户数据
+const profiles = new Map();
+
+function createProfile(id) {
+  const dataDir = path.join(PROFILES_DIR, id);
+  const profile = {
+    id,
+    dataDir,
+    entriesFile: path.join(dataDir, 'entries.json'),
+    settingsFile: path.join(dataDir, 'settings.json'),
+    revisionsFile: path.join(dataDir, 'revisions.json'),
+    trashFile: path.join(dataDir, 'trash.json'),
+    entriesLogFile: path.join(dataDir, 'entries.log'),
+    entriesDbFile: path.join(dataDir, 'entries.db'),
+    entriesDir: path.join(dataDir, 'entries'),
+    backupDir: path.join(dataDir, 'backups'),
+    // 照片等附件，每个附件一组文件
+    attachments: createAttachmentStore({ dirPath: path.join(dataDir, 'attachments') }),
+    dataFiles: dataFilesIn(dataDir),
+    // 全文搜索索引保存在内存中，打开用户数据时从存储中重建
+    searchIndex: createSearchIndex(),
+    // 正在接收推送的页面（GET /api/events 的响应）
+    eventClients: new Set()
+  };
+  profile.storage = withSearchIndex(createEntryStorage(STORAGE_BACKEND, profile), profile.searchIndex);
+  return profile;
+}
+
+function currentProfile() {
+  const profile = profileContext.getStore();
+  if (!profile) {
+    throw new Error('No active profile');
+  }
+  return profile;
+}
+
+function withProfile(profile, task) {
+  return profileContext.run(profile, task);
+}
+
+// 打开用户的数据：检查并升级数据文件，建立搜索索引
+async function openProfile(id) {
+  const profile = createProfile(id);
+  await withProfile(profile, async () => {
+    await ensureDataDirectory(profile.dataDir);
+    await profile.storage.init();
+    await checkDataFiles();
+    await migrateDataFiles();
+    await rebuildSearchIndex();
+  });
+  profiles.set(id, profile);
+  return profile;
+}
+
+async function forEachProfile(task) {
+  for (const profile of profiles.values()) {
+    await withProfile(profile, task);
+  }
+}
+
+// 当前用户的数据文件异常
+function currentDataFileIssues() {
+  const prefix = currentProfile().dataDir + path.sep;
+  return Array.from(dataFileIssues).filter(([filePath]) => filePath.startsWith(prefix));
+}
+
+// 早期版本的数据直接保存在 DATA_DIR 中，创建第一个账户时把它们移到该账户的数据目录
+async function adoptLegacyData(dataDir) {
+  await fs.mkdir(dataDir, { recursive: true });
+  const ownFiles = [USERS_FILE, SESSIONS_FILE, PROFILES_DIR].map(filePath => path.basename(filePath));
+  for (const file of await fs.readdir(DATA_DIR)) {
+    if (file.endsWith('.tmp') || ownFiles.some(name => file === name || file.startsWith(`${name}.`))) continue;
+    await fs.rename(path.join(DATA_DIR, file), path.join(dataDir, file));
+    console.log(`📦 已将 ${file} 移到 ${path.relative(DATA_DIR, dataDir)}`);
+  }
+}
+
+// ===== 用户与登录 =====
+
+// 密码用 scrypt 加盐哈希后保存。登录后发放随机的会话令牌，请求通过 Authorization: Bearer <令牌> 携带；
+// 服务器只保存令牌的 SHA-256，sessions.json 泄露也无法用来登录
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_USERNAME_LENGTH = 32;
+const PASSWORD_KEY_LENGTH = 64;
+
+// 不需要登录的接口：健康检查，以及登录和创建第一个账户
+const PUBLIC_ROUTES = ['GET /health', 'GET /auth/status', 'POST /auth/login', 'POST /auth/register'];
+
+const scrypt = util.promisify(crypto.scrypt);
+
+// 令牌的 SHA-256 -> { userId, expiresAt }
+const sessions = new Map();
+
+async function hashPassword(password, salt) {
+  return (await scrypt(password, salt, PASSWORD_KEY_LENGTH)).toString('base64');
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function publicUser(user) {
+  return { id: user.id, username: user.username };
+}
+
+function validateCredentials(credentials) {
+  const { username, password } = isPlainObject(credentials) ? credentials : {};
+  if (typeof username !== 'string' || username.trim() === '' || username.trim().length > MAX_USERNAME_LENGTH) {
+    return 'username must be 1-32 characters';
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+async function loadSessions() {
+  const now = Date.now();
+  for (const { tokenHash, userId, expiresAt } of await readJSONFile(SESSIONS_FILE, [])) {
+    if (Date.parse(expiresAt) > now) {
+      sessions.set(tokenHash, { userId, expiresAt });
+    }
+  }
+}
+
+function saveSessions() {
+  return withFileLock(SESSIONS_FILE, () => writeJSONFile(
+    SESSIONS_FILE,
+    Array.from(sessions, ([tokenHash, session]) => ({ tokenHash, ...session })),
+    { backup: false }
+  ));
+}
+
+async function createSession(userId) {
+  const now = Date.now();
+  for (const [tokenHash, session] of sessions) {
+    if (Date.parse(session.expiresAt) <= now) {
+      sessions.delete(tokenHash);
+    }
+  }
+  const token = crypto.randomBytes(32).toString('base64url');
+  sessions.set(hashToken(token), { userId, expiresAt: new Date(now + SESSION_TTL).toISOString() });
+  await saveSessions();
+  return token;
+}
+
+// 请求携带的令牌，没有时返回 null
+function getRequestToken(req) {
+  const match = /^Bearer (\S+)$/.exec(req.get('Authorization') || '');
+  return match ? match[1] : null;
+}
+
+// 请求所属的会话，令牌无效或已过期时返回 null
+function findSession(req) {
+  const token = getRequestToken(req);
+  const session = token && sessions.get(hashToken(token));
+  return session && Date.parse(session.expiresAt) > Date.now() ? session : null;
+}
+
+// 除 PUBLIC_ROUTES 外的接口都需要有效的会话，请求在登录用户的数据上处理
+app.use('/api', (req, res, next) => {
+  if (PUBLIC_ROUTES.includes(`${req.method} ${req.path}`)) {
+    return next();
+  }
+  const session = findSession(req);
+  const profile = session && profiles.get(session.userId);
+  if (!profile) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  withProfile(profile, next);
+});
+
+// 是否已有账户：没有时前端显示创建第一个账户的界面
+app.get('/api/auth/status', async (req, res) => {
+  try {
+    const users = await readJSONFile(USERS_FILE, []);
+    res.json({ hasUsers: users.length > 0 });
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to read users');
+  }
+});
+
+// 创建账户。第一个账户可以直接创建（并接管早期版本的数据），之后只有已登录的用户才能添加账户
+app.post('/api/auth/register', async (req, res) => {
+  try {
+    const validationError = validateCredentials(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid credentials', details: validationError });
+    }
+    const username = req.body.username.trim();
+
+    const result = await withFileLock(USERS_FILE, async () => {
+      const users = await readJSONFile(USERS_FILE, []);
+      if (users.length > 0 && !findSession(req)) {
+        return { status: 401 };
+      }
+      if (users.some(user => user.username.toLowerCase() === username.toLowerCase())) {
+        return { status: 409 };
+      }
+      const salt = crypto.randomBytes(16).toString('base64');
+      const user = {
+        id: crypto.randomUUID(),
+        username,
+        salt,
+        passwordHash: await hashPassword(req.body.password, salt),
+        createdAt: new Date().toISOString()
+      };
+      if (!await writeJSONFile(USERS_FILE, [...users, user])) {
+        return { status: 500 };
+      }
+      if (users.length === 0) {
+        await adoptLegacyData(path.join(PROFILES_DIR, user.id));
+      }
+      await openProfile(user.id);
+      return { status: 200, user };
+    });
+
+    if (result.status === 401) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (result.status === 409) {
+      return res.status(409).json({ error: 'Username already exists' });
+    }
+    if (result.status !== 200) {
+      return res.status(500).json({ error: 'Failed to create user' });
+    }
+    console.log(`👤 已创建用户 ${result.user.username}`);
+    res.json(publicUser(result.user));
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to create user');
+  }
+});
+
+// 登录，返回会话令牌
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = isPlainObject(req.body) ? req.body : {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Invalid credentials' });
+    }
+    const users = await readJSONFile(USERS_FILE, []);
+    const user = users.find(item => item.username.toLowerCase() === username.trim().toLowerCase());
+    // 用户不存在时同样计算一次哈希，避免通过响应时间判断用户名是否存在
+    const passwordHash = Buffer.from(await hashPassword(password, user ? user.salt : ''), 'base64');
+    const expected = user ? Buffer.from(user.passwordHash, 'base64') : crypto.randomBytes(PASSWORD_KEY_LENGTH);
+    if (!user || !crypto.timingSafeEqual(passwordHash, expected)) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    res.json({ token: await createSession(user.id), user: publicUser(user) });
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to log in');
+  }
+});
+
+// 退出登录，使当前令牌失效
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    sessions.delete(hashToken(getRequestToken(req)));
+    await saveSessions();
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to log out');
+  }
+});
+
+// ===== 日记查询 =====
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// 分页游标记录上一页最后一篇日记的日期和 id，下一页从它之后开始。
+// 游标不依赖位置，翻页期间新增或删除日记不会导致重复或遗漏
+function encodeCursor(entry) {
+  return Buffer.from(JSON.stringify([entry.date, entry.id])).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const [date, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof date === 'string' && typeof id === 'string' && isValidDate(date)) {
+      return { date, id };
+    }
+  } catch (error) {
+    // 无法解析的游标按无效处理
+  }
+  return null;
+}
+
+// 解析字数下限 / 上限参数，省略时返回 undefined，无效时返回 null
+function parseWordCount(value) {
+  if (value === undefined || value === '') return undefined;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+// 解析筛选参数：from / to 日期范围，mood 心情（多个用逗号分隔），tag 标签（多个用逗号分隔，需全部包含），
+// q 内容关键词，exclude 排除的词（可重复），minWords / maxWords 字数范围。参数无效时返回 null
+function parseEntryFilter(query) {
+  const { from, to, mood, tag, q } = query;
+  if ([from, to, mood, tag, q].some(value => value !== undefined && typeof value !== 'string')) {
+    return null;
+  }
+  if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+    return null;
+  }
+  const exclude = query.exclude === undefined ? [] : [].concat(query.exclude);
+  if (!exclude.every(term => typeof term === 'string')) {
+    return null;
+  }
+  const minWords = parseWordCount(query.minWords);
+  const maxWords = parseWordCount(query.maxWords);
+  if (minWords === null || maxWords === null) {
+    return null;
+  }
+
+  const excludedTerms = exclude.map(term => term.trim()).filter(Boolean);
+  return {
+    from: from || undefined,
+    to: to || undefined,
+    moods: mood ? mood.split(',').filter(Boolean) : undefined,
+    tags: tag ? tag.split(',').filter(Boolean) : undefined,
+    q: q ? q.trim() || undefined : undefined,
+    exclude: excludedTerms.length > 0 ? excludedTerms : undefined,
+    minWords,
+    maxWords
+  };
+}
+
+// 解析每页数量，省略时使用默认值，无效时返回 null
+function parsePageSize(limit) {
+  const pageSize = limit === undefined || limit === '' ? DEFAULT_PAGE_SIZE : Number(limit);
+  return Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= MAX_PAGE_SIZE ? pageSize : null;
+}
+
+// 解析日记列表的查询参数：筛选条件和 cursor / limit 分页。参数无效时返回 null
+function parseEntryQuery(query) {
+  const { cursor, limit } = query;
+  const filter = parseEntryFilter(query);
+  if (!filter || (cursor !== undefined && typeof cursor !== 'string')) {
+    return null;
+  }
+  const paged = cursor !== undefined || limit !== undefined;
+  const pageSize = parsePageSize(limit);
+  const after = cursor ? decodeCursor(cursor) : undefined;
+  if (pageSize === null || after === null) {
+    return null;
+  }
+  return { filter, paged, after, pageSize };
+}
+
+// API 路由
+
+// 获取日记条目，可用 from / to / mood / tag / q / exclude / minWords / maxWords 参数筛选。
+// 带 cursor 或 limit 参数时分页返回 { entries, nextCursor }，没有下一页时 nextCursor 为 null；
+// 否则返回全部满足条件的日记
+app.get('/api/entries', async (req, res) => {
+  const { storage } = currentProfile();
+  try {
+    const query = parseEntryQuery(req.query);
+    if (!query) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+    if (!query.paged) {
+      return res.json(await storage.query(query.filter));
+    }
+
+    // 多取一篇，用来判断是否还有下一页
+    const entries = await storage.query(query.filter, { after: query.after, limit: query.pageSize + 1 });
+    const hasMore = entries.length > query.pageSize;
+    const page = hasMore ? entries.slice(0, query.pageSize) : entries;
+    res.json({
+      entries: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null
+    });
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to fetch entries');
+  }
+});
+
+// 全文搜索：q 为搜索词，可同时使用与日记列表相同的筛选参数，offset / limit 分页。
+// 返回匹配的总数和按相关度排序的结果，每条结果带有摘要和摘要中需要高亮的位置
+app.get('/api/search', async (req, res) => {
+  const { searchIndex, storage } = currentProfile();
+  try {
+    const { q, ...rest } = req.query;
+    const filter = parseEntryFilter(rest);
+    const pageSize = parsePageSize(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+    if (typeof q !== 'string' || !q.trim() || !filter || pageSize === null || !Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'Invalid search parameters' });
+    }
+
+    const matches = [];
+    for (const { id, score } of searchIndex.search(q)) {
+      const entry = await storage.get(id);
+      if (entry && matchesFilter(entry, filter)) {
+        matches.push({ entry, score });
+      }
+    }
+    res.json({
+      total: matches.length,
+      hits: matches.slice(offset, offset + pageSize).map(({ entry, score }) => ({
+        entry,
+        score,
+        snippet: createSnippet(entry.content, q)
+      }))
+    });
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to search entries');
+  }
+});
+
+// 满足筛选条件的日记的统计，参数与日记列表的筛选参数相同。
+// 返回 { total, moods, tags, emotions, emotionPairs }：日记数、各心情的日记数、各标签的日记数和情绪统计
+app.get('/api/stats', async (req, res) => {
+  const { storage } = currentProfile();
+  try {
+    const filter = parseEntryFilter(req.query);
+    if (!filter) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+    res.json(summarizeEntries(await storage.query(filter)));
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to compute stats');
+  }
+});
+
+// 保存所有日记条目
+app.post('/api/entries', async (req, res) => {
+  const { entriesFile, storage } = currentProfile();
+  try {
+    const entries = req.body;
+    if (!Array.isArray(entries) || entries.some(entry => validateEntry(entry) !== null)) {
+      return res.status(400).json({ error: 'Invalid entries' });
+    }
+    await createSnapshot('pre-save');
+    const success = await withFileLock(entriesFile, () => storage.replaceAll(entries));
+    if (success) {
+      res.json({ message: 'Entries saved successfully' });
+    } else {
+      res.status(500).json({ error: 'Failed to save entries' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to save entries');
+  }
+});
+
+// 添加新的日记条目
+app.post('/api/entries/add', async (req, res) => {
+  const { entriesFile, settingsFile, storage } = currentProfile();
+  try {
+    const entryData = req.body;
+    if (!isPlainObject(entryData)) {
+      return res.status(400).json({ error: 'Invalid entry' });
+    }
+    const { newEntry, success, invalid } = await withFileLock(entriesFile, async () => {
+      const now = new Date().toISOString();
+      const settings = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+      const newEntry = {
+        date: now,
+        content: '',
+        mood: defaultMoodOf(settings),
+        ...entryData,
+        id: generateEntryId(),
+        revision: 1,
+        updatedAt: now
+      };
+      if (isOfflineReplay(req) && checkMoodInScale(newEntry.mood, settings)) {
+        newEntry.mood = defaultMoodOf(settings);
+      }
+      // 附件 id 等字段会被用来访问文件，写入前检查整条日记
+      const invalid = validateEntry(newEntry) || checkMoodInScale(newEntry.mood, settings);
+      if (invalid) {
+        return { success: false, invalid };
+      }
+      
+      const success = await storage.create(newEntry);
+      return { newEntry, success };
+    });
+    
+    if (invalid) {
+      res.status(400).json({ error: 'Invalid entry', details: invalid });
+    } else if (success) {
+      res.setHeader('ETag', entryETag(newEntry));
+      res.json(newEntry);
+    } else {
+      res.status(500).json({ error: 'Failed to add entry' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to add entry');
+  }
+});
+
+// 日记条目的 ETag 即其修订号，旧数据中没有修订号的条目视为 0
+function entryETag(entry) {
+  return `"${entry.revision || 0}"`;
+}
+
+// 获取单条日记条目
+app.get('/api/entries/:id', async (req, res) => {
+  try {
+    const entry = await currentProfile().storage.get(resolveEntryId(req.params.id));
+    if (!entry) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+    res.setHeader('ETag', entryETag(entry));
+    res.json(entry);
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to fetch entry');
+  }
+});
+
+// 更新日记条目，内容或心情发生变化时把旧版本记入历史。
+// 请求带 If-Match 时只有修订号一致才会更新，否则返回 409 和服务器上的最新版本
+app.put('/api/entries/:id', async (req, res) => {
+  const { entriesFile, revisionsFile, settingsFile, storage } = currentProfile();
+  try {
+    const entryId = resolveEntryId(req.params.id);
+    if (!isPlainObject(req.body)) {
+      return res.status(400).json({ error: 'Invalid entry' });
+    }
+    const { id, revision, updatedAt, ...updates } = req.body;
+    const ifMatch = req.get('If-Match');
+    const { found, conflict, invalid, success, entry, previous } = await withFileLocks([entriesFile, revisionsFile], async () => {
+      const previous = await storage.get(entryId);
+      if (!previous) {
+        return { found: false, success: false };
+      }
+      
+      if (ifMatch && ifMatch !== '*' && ifMatch.replace(/^W\//, '') !== entryETag(previous)) {
+        return { found: true, conflict: true, success: false, entry: previous };
+      }
+      
+      const changed = Object.keys(updates).some(key => JSON.stringify(updates[key]) !== JSON.stringify(previous[key]));
+      if (!changed) {
+        return { found: true, success: true, entry: previous };
+      }
+      
+      const updated = {
+        ...previous,
+        ...updates,
+        revision: (previous.revision || 0) + 1,
+        updatedAt: new Date().toISOString()
+      };
+      // 心情有变化时必须是心情刻度中的心情；刻度外的旧心情（例如导入的日记）不修改时仍可保存
+      const moodError = updated.mood !== previous.mood
+        ? checkMoodInScale(updated.mood, await readJSONFile(settingsFile, DEFAULT_SETTINGS))
+        : null;
+      if (moodError && isOfflineReplay(req)) {
+        updated.mood = previous.mood;
+      }
+      const invalid = validateEntry(updated) || (isOfflineReplay(req) ? null : moodError);
+      if (invalid) {
+        return { found: true, success: false, invalid };
+      }
+      if (updated.content !== previous.content || updated.mood !== previous.mood) {
+        const revisions = await readJSONFile(revisionsFile, {});
+        const history = revisions[entryId] || [];
+        history.unshift({
+          id: crypto.randomUUID(),
+          entryId,
+          savedAt: new Date().toISOString(),
+          content: previous.content,
+          mood: previous.mood
+        });
+        revisions[entryId] = history.slice(0, MAX_REVISIONS_PER_ENTRY);
+        if (!await writeJSONFile(revisionsFile, revisions)) {
+          return { found: true, success: false };
+        }
+      }
+      
+      const success = await storage.update(updated);
+      return { found: true, success, entry: updated, previous };
+    });
+    
+    if (!found) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+    
+    if (conflict) {
+      res.setHeader('ETag', entryETag(entry));
+      return res.status(409).json({ error: 'Entry has been modified', code: 'CONFLICT', current: entry });
+    }
+
+    if (invalid) {
+      return res.status(400).json({ error: 'Invalid entry', details: invalid });
+    }
+    
+    if (success) {
+      // 从日记中移除的照片和语音，没有其他日记使用时删除文件
+      const kept = new Set(attachmentIdsOf([entry]));
+      const removed = attachmentIdsOf(previous ? [previous] : []).filter(attachmentId => !kept.has(attachmentId));
+      if (removed.length > 0) {
+        await removeUnusedAttachments(removed).catch(error => console.error('Error removing attachments:', error));
+      }
+      res.setHeader('ETag', entryETag(entry));
+      res.json(entry);
+    } else {
+      res.status(500).json({ error: 'Failed to update entry' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to update entry');
+  }
+});
+
+// 获取日记条目的历史版本，按时间倒序
+app.get('/api/entries/:id/revisions', async (req, res) => {
+  try {
+    const revisions = await readJSONFile(currentProfile().revisionsFile, {});
+    res.json(revisions[resolveEntryId(req.params.id)] || []);
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to fetch revisions');
+  }
+});
+
+// 删除日记条目：移入回收站，可在保留期内恢复
+app.delete('/api/entries/:id', async (req, res) => {
+  const { entriesFile, trashFile, storage } = currentProfile();
+  try {
+    const entryId = resolveEntryId(req.params.id);
+    const { found, success } = await withFileLocks([entriesFile, trashFile], async () => {
+      const entry = await storage.get(entryId);
+      if (!entry) {
+        return { found: false, success: false };
+      }
+      
+      const trash = await readJSONFile(trashFile, []);
+      trash.unshift({ ...entry, deletedAt: new Date().toISOString() });
+      if (!await writeJSONFile(trashFile, trash)) {
+        return { found: true, success: false };
+      }
+      
+      const success = await storage.delete(entryId);
+      return { found: true, success };
+    });
+    
+    if (!found) {
+      return res.status(404).json({ error: 'Entry not found' });
+    }
+    
+    if (success) {
+      res.json({ message: 'Entry moved to trash' });
+    } else {
+      res.status(500).json({ error: 'Failed to delete entry' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete entry');
+  }
+});
+
+// ===== 回收站 =====
+
+// 从回收站中彻底删除满足条件的记录及其历史版本，调用方需持有 revisions.json 和 trash.json 的锁
+async function purgeTrashUnlocked(shouldPurge) {
+  const { trashFile, revisionsFile } = currentProfile();
+  const trash = await readJSONFile(trashFile, []);
+  const purged = trash.filter(shouldPurge);
+  if (purged.length === 0) {
+    return { purged, success: true };
+  }
+  
+  const revisions = await readJSONFile(revisionsFile, {});
+  purged.forEach(entry => delete revisions[entry.id]);
+  if (!await writeJSONFile(revisionsFile, revisions)) {
+    return { purged: [], success: false };
+  }
+  
+  const success = await writeJSONFile(trashFile, trash.filter(entry => !shouldPurge(entry)));
+  return { purged: success ? purged : [], success };
+}
+
+async function purgeTrash(shouldPurge) {
+  const { revisionsFile, trashFile } = currentProfile();
+  const result = await withFileLocks([revisionsFile, trashFile], () => purgeTrashUnlocked(shouldPurge));
+  // 彻底删除的日记的附件，没有其他日记使用时一并删除
+  if (result.purged.length > 0) {
+    await removeUnusedAttachments(attachmentIdsOf(result.purged))
+      .catch(error => console.error('Error removing attachments:', error));
+  }
+  return result;
+}
+
+async function runTrashPurge() {
+  try {
+    const settings = await readJSONFile(currentProfile().settingsFile, DEFAULT_SETTINGS);
+    const retentionDays = settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const { purged } = await purgeTrash(entry => new Date(entry.deletedAt).getTime() < cutoff);
+    if (purged.length > 0) {
+      console.log(`🗑️  已清理回收站中超过 ${retentionDays} 天的 ${purged.length} 条记录`);
+    }
+    // 上传后没有保存到日记中、或已从日记中移除的附件
+    const removed = await removeUnusedAttachments();
+    if (removed > 0) {
+      console.log(`🗑️  已清理 ${removed} 个不再使用的附件`);
+    }
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
+}
+
+// 获取回收站中的记录，按删除时间倒序
+app.get('/api/trash', async (req, res) => {
+  try {
+    res.json(await readJSONFile(currentProfile().trashFile, []));
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to fetch trash');
+  }
+});
+
+// 从回收站恢复记录，按日期放回原来的位置
+app.post('/api/trash/:id/restore', async (req, res) => {
+  const { entriesFile, trashFile, storage } = currentProfile();
+  try {
+    const entryId = resolveEntryId(req.params.id);
+    const restored = await withFileLocks([entriesFile, trashFile], async () => {
+      const trash = await readJSONFile(trashFile, []);
+      const trashed = trash.find(item => item.id === entryId);
+      if (!trashed) {
+        return { found: false, success: false };
+      }
+      
+      const { deletedAt, ...entry } = trashed;
+      if (!await storage.create(entry)) {
+        return { found: true, success: false };
+      }
+      
+      const success = await writeJSONFile(trashFile, trash.filter(item => item.id !== entryId));
+      return { found: true, success, entry };
+    });
+    
+    if (!restored.found) {
+      return res.status(404).json({ error: 'Entry not found in trash' });
+    }
+    
+    if (restored.success) {
+      res.json(restored.entry);
+    } else {
+      res.status(500).json({ error: 'Failed to restore entry' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to restore entry');
+  }
+});
+
+// 彻底删除回收站中的一条记录
+app.delete('/api/trash/:id', async (req, res) => {
+  try {
+    const entryId = resolveEntryId(req.params.id);
+    const { purged, success } = await purgeTrash(entry => entry.id === entryId);
+    
+    if (success && purged.length === 0) {
+      return res.status(404).json({ error: 'Entry not found in trash' });
+    }
+    
+    if (success) {
+      res.json({ message: 'Entry permanently deleted' });
+    } else {
+      res.status(500).json({ error: 'Failed to delete entry' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete entry');
+  }
+});
+
+// 清空回收站
+app.delete('/api/trash', async (req, res) => {
+  try {
+    const { success } = await purgeTrash(() => true);
+    
+    if (success) {
+      res.json({ message: 'Trash emptied successfully' });
+    } else {
+      res.status(500).json({ error: 'Failed to empty trash' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to empty trash');
+  }
+});
+
+// ===== 标签 =====
+
+// 日记的标签保存在 tags 列表中，标签列表和每个标签的日记数由 /api/stats 统计。
+// 改名、合并和删除需要修改全部日记，由服务器完成：修改前创建快照，日记和回收站中的标签一起修改，
+// 正文中的 #标签 也随之修改。加密的正文是密文，不含 #，保持不变；启用加密时由浏览器先解密修改正文再调用这里
+
+// 把日记中的标签 tag 改为 newTag（已有 newTag 时即为合并），newTag 为 null 时删除标签。
+// 日记没有这个标签时返回 null
+function changeEntryTag(entry, tag, newTag) {
+  if (!Array.isArray(entry.tags) || !entry.tags.includes(tag)) {
+    return null;
+  }
+  const tags = newTag === null
+    ? entry.tags.filter(item => item !== tag)
+    : [...new Set(entry.tags.map(item => (item === tag ? newTag : item)))];
+  return { ...entry, tags, content: replaceHashtag(entry.content, tag, newTag) };
+}
+
+// 在全部日记和回收站中修改标签，正文有变化的日记把旧版本记入历史。返回 { success, ids }，ids 为修改的日记
+async function changeTag(tag, newTag) {
+  const { storage, revisionsFile, trashFile } = currentProfile();
+  const result = await withAllFileLocks(async () => {
+    const entries = await storage.list();
+    const trash = await readJSONFile(trashFile, []);
+    const changed = entries
+      .map(previous => ({ previous, entry: changeEntryTag(previous, tag, newTag) }))
+      .filter(({ entry }) => entry !== null);
+    const updatedTrash = trash.map(item => changeEntryTag(item, tag, newTag) || item);
+    const trashChanged = updatedTrash.some((item, index) => item !== trash[index]);
+    if (changed.length === 0 && !trashChanged) {
+      return { success: true, ids: [] };
+    }
+
+    await createSnapshotUnlocked('pre-tags');
+    const now = new Date().toISOString();
+    const revisions = await readJSONFile(revisionsFile, {});
+    const rewritten = changed.filter(({ previous, entry }) => entry.content !== previous.content);
+    for (const { previous } of rewritten) {
+      revisions[previous.id] = [{
+        id: crypto.randomUUID(),
+        entryId: previous.id,
+        savedAt: now,
+        content: previous.content,
+        mood: previous.mood
+      }, ...(revisions[previous.id] || [])].slice(0, MAX_REVISIONS_PER_ENTRY);
+    }
+    if (rewritten.length > 0 && !await writeJSONFile(revisionsFile, revisions)) {
+      return { success: false, ids: [] };
+    }
+
+    const ids = [];
+    for (const { previous, entry } of changed) {
+      if (!await storage.update({ ...entry, revision: (previous.revision || 0) + 1, updatedAt: now })) {
+        return { success: false, ids };
+      }
+      ids.push(entry.id);
+    }
+    const success = !trashChanged || await writeJSONFile(trashFile, updatedTrash);
+    return { success, ids };
+  });
+  await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
+  // 通知已打开的页面重新读取日记
+  result.ids.forEach(id => broadcastEvent('entries', { type: 'update', id }));
+  return result;
+}
+
+// 标签改名：body 为 { name }，name 已存在时把两个标签合并。返回 { updated }，即修改的日记数
+app.put('/api/tags/:tag', async (req, res) => {
+  try {
+    const { tag } = req.params;
+    const name = isPlainObject(req.body) ? req.body.name : undefined;
+    if (!isValidTag(tag) || !isValidTag(name)) {
+      return res.status(400).json({ error: `Tags must be 1-${MAX_TAG_LENGTH} letters, digits, _, - or /` });
+    }
+    const { success, ids } = name === tag ? { success: true, ids: [] } : await changeTag(tag, name);
+    if (success) {
+      res.json({ updated: ids.length });
+    } else {
+      res.status(500).json({ error: 'Failed to rename tag' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to rename tag');
+  }
+});
+
+// 从全部日记中删除标签，正文中的 #标签 只去掉 #。返回 { updated }
+app.delete('/api/tags/:tag', async (req, res) => {
+  try {
+    if (!isValidTag(req.params.tag)) {
+      return res.status(400).json({ error: 'Invalid tag' });
+    }
+    const { success, ids } = await changeTag(req.params.tag, null);
+    if (success) {
+      res.json({ updated: ids.length });
+    } else {
+      res.status(500).json({ error: 'Failed to delete tag' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete tag');
+  }
+});
+
+// ===== 心情 =====
+
+// 心情刻度保存在设置的 moodScale 中，日记的 mood 是刻度中某个心情的 value。
+// 修改刻度时，日记（包括回收站和历史版本）仍在使用的心情必须保留或指定替换成刻度中的另一个心情
+const MOOD_VALUE = /^[\w-]{1,50}$/;
+const MOOD_COLOR = /^#[0-9a-fA-F]{6}$/;
+const MAX_MOOD_SCALE_SIZE = 20;
+
+function isValidMoodScale(moodScale) {
+  return Array.isArray(moodScale)
+    && moodScale.length > 0
+    && moodScale.length <= MAX_MOOD_SCALE_SIZE
+    && moodScale.every(mood => (
+      isPlainObject(mood)
+        && typeof mood.value === 'string' && MOOD_VALUE.test(mood.value)
+        && typeof mood.label === 'string' && mood.label.trim() !== ''
+        && typeof mood.emoji === 'string' && mood.emoji.trim() !== ''
+        && typeof mood.color === 'string' && MOOD_COLOR.test(mood.color)
+        && Number.isFinite(mood.score)
+    ))
+    && new Set(moodScale.map(mood => mood.value)).size === moodScale.length;
+}
+
+// 新日记的默认心情：心情刻度中间的心情，与页面一致
+function defaultMoodOf(settings) {
+  const moodScale = isValidMoodScale(settings.moodScale) ? settings.moodScale : DEFAULT_MOOD_SCALE;
+  return moodScale[Math.floor((moodScale.length - 1) / 2)].value;
+}
+
+// 心情不在心情刻度中时返回错误说明
+function checkMoodInScale(mood, settings) {
+  const moodScale = isValidMoodScale(settings.moodScale) ? settings.moodScale : DEFAULT_MOOD_SCALE;
+  return moodScale.some(option => option.value === mood) ? null : '心情不在心情刻度中';
+}
+
+// 离线时保存、恢复连接后重放的请求带有 X-Offline-Replay: 1。离线期间心情刻度可能已在别处修改，
+// 这些请求中不在刻度中的心情不拒绝：新建的日记改用默认心情，修改时保留原来的心情，以免整条离线修改被丢弃
+function isOfflineReplay(req) {
+  return req.get('X-Offline-Replay') === '1';
+}
+
+// 日记除主要心情 mood 外，还可以有多个次要情绪 emotions：[{ name, intensity }]，
+// name 为情绪名称（页面从情绪轮中选择），intensity 为 1 到 5 的强度。情绪不属于心情刻度，修改刻度时保持不变
+const MAX_EMOTION_NAME_LENGTH = 20;
+const MAX_EMOTION_INTENSITY = 5;
+
+function isValidEmotionList(emotions) {
+  return Array.isArray(emotions)
+    && emotions.every(emotion => (
+      isPlainObject(emotion)
+        && typeof emotion.name === 'string'
+        && emotion.name.trim() !== ''
+        && emotion.name.length <= MAX_EMOTION_NAME_LENGTH
+        && Number.isInteger(emotion.intensity)
+        && emotion.intensity >= 1
+        && emotion.intensity <= MAX_EMOTION_INTENSITY
+    ))
+    && new Set(emotions.map(emotion => emotion.name)).size === emotions.length;
+}
+
+// 替换日记或历史版本中的心情，不需要替换时返回原对象
+const replaceMood = (item, replacements) => (
+  Object.hasOwn(replacements, item.mood) ? { ...item, mood: replacements[item.mood] } : item
+);
+
+// 保存心情刻度：replacements 为 { 旧心情: 新心情 }，把日记中的旧心情替换为刻度中的新心情。
+// 日记仍在使用、刻度中却没有且没有指定替换的心情返回 { success: false, missing }，不做任何修改。
+// 成功时返回 { success: true, ids }，ids 为修改的日记
+async function saveMoodScale(moodScale, replacements) {
+  const { storage, settingsFile, revisionsFile, trashFile } = currentProfile();
+  const values = new Set(moodScale.map(mood => mood.value));
+  const result = await withAllFileLocks(async () => {
+    const entries = await storage.list();
+    const trash = await readJSONFile(trashFile, []);
+    const revisions = await readJSONFile(revisionsFile, {});
+    const history = Object.values(revisions).flat();
+    const missing = [...new Set([...entries, ...trash, ...history].map(item => item.mood))]
+      .filter(mood => !values.has(mood) && !Object.hasOwn(replacements, mood));
+    if (missing.length > 0) {
+      return { success: false, missing, ids: [] };
+    }
+
+    const changed = entries
+      .map(previous => ({ previous, entry: replaceMood(previous, replacements) }))
+      .filter(({ previous, entry }) => entry !== previous);
+    const updatedTrash = trash.map(item => replaceMood(item, replacements));
+    const historyChanged = history.some(item => Object.hasOwn(replacements, item.mood));
+    if (changed.length > 0 || updatedTrash.some((item, index) => item !== trash[index]) || historyChanged) {
+      await createSnapshotUnlocked('pre-moods');
+    }
+
+    const now = new Date().toISOString();
+    const ids = [];
+    for (const { previous, entry } of changed) {
+      if (!await storage.update({ ...entry, revision: (previous.revision || 0) + 1, updatedAt: now })) {
+        return { success: false, ids };
+      }
+      ids.push(entry.id);
+    }
+    const updatedRevisions = Object.fromEntries(Object.entries(revisions).map(([entryId, items]) => (
+      [entryId, items.map(item => replaceMood(item, replacements))]
+    )));
+    const settings = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+    const success = await writeJSONFile(trashFile, updatedTrash)
+      && (!historyChanged || await writeJSONFile(revisionsFile, updatedRevisions))
+      && await writeJSONFile(settingsFile, { ...settings, moodScale });
+    return { success, ids };
+  });
+  await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
+  // 通知已打开的页面重新读取日记
+  result.ids.forEach(id => broadcastEvent('entries', { type: 'update', id }));
+  return result;
+}
+
+// 修改心情刻度：body 为 { moodScale, replacements }。日记仍在使用被删除的心情时返回 409，
+// moods 为这些心情。成功返回 { updated }，即修改的日记数
+app.put('/api/moods', async (req, res) => {
+  try {
+    const { moodScale, replacements = {} } = isPlainObject(req.body) ? req.body : {};
+    if (!isValidMoodScale(moodScale)) {
+      return res.status(400).json({ error: 'Invalid mood scale' });
+    }
+    const values = new Set(moodScale.map(mood => mood.value));
+    if (!isPlainObject(replacements) || !Object.entries(replacements).every(([from, to]) => !values.has(from) && values.has(to))) {
+      return res.status(400).json({ error: 'Moods must be replaced with a mood in the new scale' });
+    }
+    const { success, missing, ids } = await saveMoodScale(moodScale, replacements);
+    if (missing) {
+      res.status(409).json({ error: 'Some moods are still used by entries', code: 'MOODS_IN_USE', moods: missing });
+    } else if (success) {
+      res.json({ updated: ids.length });
+    } else {
+      res.status(500).json({ error: 'Failed to save mood scale' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to save mood scale');
+  }
+});
 
-// 中间件
-app.use(cors());
-app.use(express.json());
+// ===== 附件 =====
 
-// 数据文件路径
-const DATA_DIR = path.join(__dirname, '../src/data');
-const ENTRIES_FILE = path.join(DATA_DIR, 'entries.json');
-const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
+// 日记的附件：照片（image）和语音（audio）。浏览器上传原文件，照片同时上传缩略图（缩略图在浏览器中生成，
+// 服务器不需要图像处理库），得到附件信息后写入日记的 attachments 列表。附件文件不加密
+const ATTACHMENT_MIME_TYPES = {
+  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/heic', 'image/heif'],
+  audio: ['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/aac']
+};
+const THUMBNAIL_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+const MAX_ATTACHMENT_NAME_LENGTH = 200;
+// 上传后还没有保存到日记中的附件，超过这段时间仍未被引用才会被清理
+const UNUSED_ATTACHMENT_GRACE_PERIOD = 24 * 60 * 60 * 1000;
 
-// 确保数据目录存在
-async function ensureDataDirectory() {
+// 日记中保存的附件信息；width / height 只用于照片，duration（秒）只用于语音
+function publicAttachment({ id, kind, name, mimeType, size, width, height, duration }) {
+  return { id, kind, name, mimeType, size, width, height, duration };
+}
+
+function isValidAttachmentList(attachments) {
+  return Array.isArray(attachments) && attachments.every(attachment => (
+    isPlainObject(attachment)
+      && isUlid(attachment.id)
+      && Object.hasOwn(ATTACHMENT_MIME_TYPES, attachment.kind)
+      && typeof attachment.name === 'string'
+      // 类型会作为读取附件时的 Content-Type，只允许上传时接受的类型，以免导入的文件被当作网页打开
+      && ATTACHMENT_MIME_TYPES[attachment.kind].includes(attachment.mimeType)
+  ));
+}
+
+function attachmentIdsOf(entries) {
+  return entries.flatMap(entry => (Array.isArray(entry.attachments) ? entry.attachments.map(attachment => attachment.id) : []));
+}
+
+// 日记和回收站中仍在使用的附件
+async function readAttachmentReferences() {
+  const { storage, trashFile } = currentProfile();
+  const entries = await storage.list();
+  const trash = await readJSONFile(trashFile, []);
+  return new Set(attachmentIdsOf([...entries, ...trash]));
+}
+
+// 删除不再被日记和回收站引用的附件：ids 为要检查的附件，省略时检查全部附件中超过宽限期的
+async function removeUnusedAttachments(ids) {
+  const { attachments, entriesFile, trashFile } = currentProfile();
+  return withFileLocks([entriesFile, trashFile], async () => {
+    const referenced = await readAttachmentReferences();
+    let candidates = ids;
+    if (!candidates) {
+      const cutoff = Date.now() - UNUSED_ATTACHMENT_GRACE_PERIOD;
+      candidates = (await attachments.list())
+        .filter(info => !(Date.parse(info.createdAt) > cutoff))
+        .map(info => info.id);
+    }
+    let removed = 0;
+    for (const id of new Set(candidates)) {
+      if (!referenced.has(id) && await attachments.get(id) && await attachments.remove(id)) {
+        removed++;
+      }
+    }
+    return removed;
+  });
+}
+
+// 读取日记引用的附件：附件 id -> { info, data, thumbnail }，缺少文件的附件跳过
+async function readAttachmentFiles(store, entries) {
+  const files = new Map();
+  for (const id of new Set(attachmentIdsOf(entries))) {
+    const info = await store.get(id);
+    const data = info && await store.read(id);
+    if (data) {
+      files.set(id, { info, data, thumbnail: info.thumbnailMimeType ? await store.read(id, 'thumbnail') : null });
+    }
+  }
+  return files;
+}
+
+// 导出数据中的附件：日记引用的附件连同文件内容（base64）一起导出，导入时据此恢复
+async function exportAttachments(store, entries) {
+  return Array.from((await readAttachmentFiles(store, entries)).values(), ({ info, data, thumbnail }) => ({
+    ...info,
+    data: data.toString('base64'),
+    thumbnail: thumbnail ? thumbnail.toString('base64') : null
+  }));
+}
+
+// 导入附件：跳过已有的和无效的附件，返回导入的数量
+async function importAttachments(items) {
+  const { attachments } = currentProfile();
+  let imported = 0;
+  for (const item of Array.isArray(items) ? items : []) {
+    const { data, thumbnail, ...info } = isPlainObject(item) ? item : {};
+    if (!isValidAttachmentList([info]) || typeof data !== 'string' || await attachments.get(info.id)) continue;
+    const thumbnailData = typeof thumbnail === 'string' && THUMBNAIL_MIME_TYPES.includes(info.thumbnailMimeType)
+      ? Buffer.from(thumbnail, 'base64')
+      : null;
+    const content = Buffer.from(data, 'base64');
+    const saved = await attachments.save({
+      ...publicAttachment(info),
+      size: content.length,
+      thumbnailMimeType: thumbnailData ? info.thumbnailMimeType : undefined,
+      createdAt: isValidDate(info.createdAt) ? info.createdAt : new Date().toISOString()
+    }, content, thumbnailData);
+    if (saved) imported++;
+  }
+  return imported;
+}
+
+function parseDimension(part) {
+  const value = part ? Number(part.data.toString()) : undefined;
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+// 语音的时长（秒），保留一位小数
+function parseDuration(part) {
+  const value = part ? Number(part.data.toString()) : undefined;
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 10) / 10 : undefined;
+}
+
+// 上传附件：multipart/form-data，file 为原文件，thumbnail 为照片的缩略图（可省略），
+// width / height 为照片尺寸、duration 为语音时长（秒），都可以省略。返回附件信息
+app.post('/api/attachments', express.raw({ type: 'multipart/form-data', limit: MAX_ATTACHMENT_SIZE * 2 }), async (req, res) => {
+  const { attachments } = currentProfile();
+  try {
+    const parts = parseMultipart(req.body, req.get('Content-Type'));
+    const field = name => parts?.find(part => part.name === name);
+    const file = field('file');
+    if (!file || file.data.length === 0) {
+      return res.status(400).json({ error: 'Invalid upload' });
+    }
+    // 录音的类型可能带有编码参数，例如 audio/webm;codecs=opus
+    const mimeType = (file.contentType || '').split(';')[0].trim().toLowerCase();
+    const kind = Object.keys(ATTACHMENT_MIME_TYPES).find(type => ATTACHMENT_MIME_TYPES[type].includes(mimeType));
+    if (!kind) {
+      return res.status(415).json({ error: 'Unsupported file type' });
+    }
+    if (file.data.length > MAX_ATTACHMENT_SIZE) {
+      return res.status(413).json({ error: 'File is too large' });
+    }
+    const thumbnail = kind === 'image' ? field('thumbnail') : null;
+    const hasThumbnail = thumbnail && thumbnail.data.length > 0 && THUMBNAIL_MIME_TYPES.includes(thumbnail.contentType);
+
+    const info = {
+      id: generateEntryId(),
+      kind,
+      name: path.basename(file.filename || '').slice(0, MAX_ATTACHMENT_NAME_LENGTH) || kind,
+      mimeType,
+      size: file.data.length,
+      width: kind === 'image' ? parseDimension(field('width')) : undefined,
+      height: kind === 'image' ? parseDimension(field('height')) : undefined,
+      duration: kind === 'audio' ? parseDuration(field('duration')) : undefined,
+      thumbnailMimeType: hasThumbnail ? thumbnail.contentType : undefined,
+      createdAt: new Date().toISOString()
+    };
+    if (await attachments.save(info, file.data, hasThumbnail ? thumbnail.data : null)) {
+      res.status(201).json(publicAttachment(info));
+    } else {
+      res.status(500).json({ error: 'Failed to save attachment' });
+    }
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to save attachment');
+  }
+});
+
+// 读取附件文件；没有缩略图时缩略图返回原文件。附件不会被修改，浏览器可以长期缓存
+async function sendAttachment(req, res, variant) {
+  const { attachments } = currentProfile();
   try {
-    await fs.access(DATA_DIR);
+    const info = isUlid(req.params.id) ? await attachments.get(req.params.id) : null;
+    if (!info) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    const useThumbnail = variant === 'thumbnail' && THUMBNAIL_MIME_TYPES.includes(info.thumbnailMimeType);
+    // 旧版本导入的附件可能带有其他类型，按普通文件下载
+    const mimeType = ATTACHMENT_MIME_TYPES[info.kind]?.includes(info.mimeType) ? info.mimeType : 'application/octet-stream';
+    res.setHeader('Content-Type', useThumbnail ? info.thumbnailMimeType : mimeType);
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(attachments.filePath(info.id, useThumbnail ? 'thumbnail' : 'original'), { dotfiles: 'allow' }, error => {
+      if (!error || res.headersSent) return;
+      if (error.code === 'ENOENT') {
+        res.status(404).json({ error: 'Attachment not found' });
+      } else {
+        sendRouteError(res, error, 'Failed to read attachment');
+      }
+    });
   } catch (error) {
-    await fs.mkdir(DATA_DIR, { recursive: true });
+    sendRouteError(res, error, 'Failed to read attachment');
   }
 }
 
-// 读取JSON文件
-async function readJSONFile(filePath, defaultValue = null) {
+app.get('/api/attachments/:id', (req, res) => sendAttachment(req, res, 'original'));
+
+app.get('/api/attachments/:id/thumbnail', (req, res) => sendAttachment(req, res, 'thumbnail'));
+
+// 获取设置
+app.get('/api/settings', async (req, res) => {
+  try {
+    const settings = await readJSONFile(currentProfile().settingsFile, DEFAULT_SETTINGS);
+    res.json(settings);
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to fetch settings');
+  }
+});
+
+// 保存设置。加密参数只能通过 /api/encryption/data 修改，心情刻度只能通过 /api/moods 修改，
+// 这里始终保留当前的值
+app.post('/api/settings', async (req, res) => {
+  const { settingsFile } = currentProfile();
   try {
-    const data = await fs.readFile(filePath, 'utf8');
-    return JSON.parse(data);
+    const success = await withFileLock(settingsFile, async () => {
+      const { encryption, moodScale } = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+      return writeJSONFile(settingsFile, { ...req.body, encryption, moodScale });
+    });
+    
+    if (success) {
+      res.json({ message: 'Settings saved successfully' });
+    } else {
+      res.status(500).json({ error: 'Failed to save settings' });
+    }
   } catch (error) {
-    console.log(`File not found or invalid: ${filePath}, using default value`);
-    return defaultValue;
+    sendRouteError(res, error, 'Failed to save settings');
+  }
+});
+
+// ===== 导入 =====
+
+const IMPORT_STRATEGIES = ['replace', 'merge', 'append'];
+
+// 预览中最多列出的无效条目数
+const MAX_REPORTED_INVALID_ENTRIES = 20;
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isValidDate(value) {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+// 校验一条日记的结构，返回错误说明，合法时返回 null
+function validateEntry(entry) {
+  if (!isPlainObject(entry)) return '不是有效的日记对象';
+  if (typeof entry.id !== 'string' || !entry.id) return '缺少 id';
+  if (!isValidDate(entry.date)) return '日期无效';
+  if (typeof entry.content !== 'string') return '内容不是文本';
+  if (typeof entry.mood !== 'string' || !entry.mood) return '缺少心情';
+  if (entry.revision !== undefined && !Number.isInteger(entry.revision)) return '版本号无效';
+  if (entry.updatedAt !== undefined && !isValidDate(entry.updatedAt)) return '修改时间无效';
+  if (entry.attachments !== undefined && !isValidAttachmentList(entry.attachments)) return '附件列表无效';
+  if (entry.tags !== undefined && !isValidTagList(entry.tags)) return '标签列表无效';
+  if (entry.emotions !== undefined && !isValidEmotionList(entry.emotions)) return '情绪列表无效';
+  return null;
+}
+
+// 校验设置的结构，返回错误说明列表
+function validateSettings(settings) {
+  if (!isPlainObject(settings)) return ['设置不是有效的对象'];
+  const errors = [];
+  if (!['light', 'dark'].includes(settings.theme)) errors.push('主题无效');
+  if (typeof settings.autoSave !== 'boolean') errors.push('自动保存开关无效');
+  if (typeof settings.showMoodOnCalendar !== 'boolean') errors.push('日历心情开关无效');
+  if (!isPlainObject(settings.customTexts) ||
+      !Object.values(settings.customTexts).every(text => typeof text === 'string')) {
+    errors.push('自定义文字无效');
+  }
+  if (!isPlainObject(settings.backupRetention) ||
+      !Object.values(settings.backupRetention).every(count => Number.isInteger(count) && count >= 0)) {
+    errors.push('备份保留策略无效');
+  }
+  if (!Number.isInteger(settings.trashRetentionDays) || settings.trashRetentionDays < 1) {
+    errors.push('回收站保留天数无效');
+  }
+  if (!Array.isArray(settings.savedSearches) || !settings.savedSearches.every(search => (
+    isPlainObject(search) && ['id', 'name', 'query'].every(key => typeof search[key] === 'string')
+  ))) {
+    errors.push('保存的搜索无效');
+  }
+  if (settings.encryption !== null && !isValidEncryptionConfig(settings.encryption)) {
+    errors.push('加密参数无效');
+  }
+  if (!Number.isInteger(settings.autoLockMinutes) || settings.autoLockMinutes < 0) {
+    errors.push('自动锁定时间无效');
+  }
+  if (!isValidMoodScale(settings.moodScale)) {
+    errors.push('心情刻度无效');
+  }
+  return errors;
+}
+
+// 比较两条日记的内容是否相同（忽略版本号和修改时间）
+function isSameEntry(a, b) {
+  const { revision: revisionA, updatedAt: updatedAtA, ...restA } = a;
+  const { revision: revisionB, updatedAt: updatedAtB, ...restB } = b;
+  const keys = [...new Set([...Object.keys(restA), ...Object.keys(restB)])].sort();
+  return JSON.stringify(restA, keys) === JSON.stringify(restB, keys);
+}
+
+// 日记最后修改的时间，没有修改时间的旧数据以日记日期为准
+function entryTimestamp(entry) {
+  return Date.parse(entry.updatedAt || entry.date) || 0;
+}
+
+// 逐条比较导入的日记与现有日记：
+// new - 现有数据中没有；updated - 内容不同且导入的更新；outdated - 内容不同但现有的更新；
+// identical - 内容相同；clash - id 相同但创建日期不同，是另一篇日记；
+// invalid - 结构不合法、id 在文件中重复，或心情不在导入后的心情刻度中（与新建日记相同，现有日记原有的心情不检查）。
+// 导入后的心情刻度：strategy 为 replace 且文件中有有效的设置时是文件中的刻度，否则是当前设置中的刻度
+function analyzeImport(importData, currentEntries, currentSettings, strategy) {
+  const settingsErrors = importData.settings === undefined ? [] : validateSettings(importData.settings);
+  const targetSettings = strategy === 'replace' && importData.settings !== undefined && settingsErrors.length === 0
+    ? importData.settings
+    : currentSettings;
+  const existing = new Map(currentEntries.map(entry => [entry.id, entry]));
+  const seenIds = new Set();
+  const items = (Array.isArray(importData.entries) ? importData.entries : []).map((entry, index) => {
+    let error = validateEntry(entry);
+    if (!error && seenIds.has(entry.id)) {
+      error = 'id 与文件中的其他日记重复';
+    }
+    const current = error ? undefined : existing.get(entry.id);
+    if (!error && current?.mood !== entry.mood && checkMoodInScale(entry.mood, targetSettings)) {
+      error = `心情 ${entry.mood} 不在心情刻度中`;
+    }
+    if (error) {
+      return { status: 'invalid', index, id: isPlainObject(entry) ? entry.id : undefined, error };
+    }
+    seenIds.add(entry.id);
+
+    if (!current) return { status: 'new', entry };
+    // 日记的日期在创建后不会改变，日期不同说明是在别处生成了相同 id 的另一篇日记
+    if (Date.parse(entry.date) !== Date.parse(current.date)) return { status: 'clash', entry, current };
+    if (isSameEntry(entry, current)) return { status: 'identical', entry, current };
+    return { status: entryTimestamp(entry) >= entryTimestamp(current) ? 'updated' : 'outdated', entry, current };
+  });
+
+  return { items, settingsErrors };
+}
+
+// 汇总导入分析结果，供前端展示预览
+function summarizeImport(importData, { items, settingsErrors }) {
+  const counts = { new: 0, updated: 0, outdated: 0, identical: 0, clash: 0, invalid: 0 };
+  items.forEach(item => counts[item.status]++);
+  return {
+    schemaVersion: getSchemaVersion(importData),
+    exportDate: importData.exportDate,
+    total: items.length,
+    entries: counts,
+    invalidEntries: items
+      .filter(item => item.status === 'invalid')
+      .slice(0, MAX_REPORTED_INVALID_ENTRIES)
+      .map(({ index, id, error }) => ({ index, id, error })),
+    settings: {
+      included: importData.settings !== undefined,
+      valid: settingsErrors.length === 0,
+      errors: settingsErrors
+    }
+  };
+}
+
+// 按导入策略计算新的日记列表，无效的条目总是被跳过：
+// replace - 用导入的日记替换全部日记；
+// merge - 按 id 合并，内容不同时保留较新的一条；
+// append - 把新的和内容不同的日记作为副本追加，不覆盖现有日记。
+// merge 和 append 遇到 id 冲突的日记时，会以新 id 作为副本保留两篇
+function applyImportStrategy(strategy, currentEntries, items) {
+  const valid = items.filter(item => item.status !== 'invalid');
+  if (strategy === 'replace') {
+    return valid.map(item => item.entry);
+  }
+
+  const now = new Date().toISOString();
+  const entries = [...currentEntries];
+  for (const item of valid) {
+    if (item.status === 'new') {
+      entries.push(item.entry);
+    } else if (strategy === 'merge' && item.status === 'updated') {
+      // 版本号在现有的基础上递增，持有旧版本的客户端再保存时会收到冲突提示
+      const index = entries.findIndex(entry => entry.id === item.current.id);
+      entries[index] = { ...item.entry, revision: (item.current.revision || 0) + 1, updatedAt: now };
+    } else if (item.status === 'clash' || (strategy === 'append' && item.status !== 'identical')) {
+      entries.push({ ...item.entry, id: generateEntryId(), revision: 1, updatedAt: now });
+    }
+  }
+  return entries.sort((a, b) => new Date(b.date) - new Date(a.date));
+}
+
+// 把多个数据文件作为一个整体写入：任一文件写入失败时，把已写入的文件恢复为原来的内容
+async function writeDataFilesTogether(changes, options) {
+  const written = [];
+  for (const [filePath, data, previous] of changes) {
+    if (!await writeDataFile(filePath, data, options)) {
+      for (const [writtenPath, previousData] of written.reverse()) {
+        await writeDataFile(writtenPath, previousData, { ...options, backup: false });
+      }
+      return false;
+    }
+    written.push([filePath, previous]);
+  }
+  return true;
+}
+
+// 解析导入的数据：迁移到当前格式，导入文件必须至少包含日记或设置
+function parseImportData(body) {
+  if (!isPlainObject(body) || (body.entries === undefined && body.settings === undefined)) {
+    return null;
   }
+  const { entries, settings } = migrateDataset(
+    { entries: body.entries, settings: body.settings },
+    getSchemaVersion(body),
+    'Import data'
+  );
+  return { ...body, entries, settings };
 }
 
-// 写入JSON文件
-async function writeJSONFile(filePath, data) {
+// 导出数据
+app.get('/api/export', async (req, res) => {
+  const { attachments, storage, settingsFile } = currentProfile();
+  try {
+    const entries = await storage.list();
+    const settings = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+    
+    const exportData = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      entries,
+      settings,
+      attachments: await exportAttachments(attachments, entries),
+      exportDate: new Date().toISOString()
+    };
+    
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="daily-life-backup-${new Date().toISOString().split('T')[0]}.json"`);
+    res.send(JSON.stringify(exportData, null, 2));
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to export data');
+  }
+});
+
+// 导出为可离线浏览的压缩包：format 为 markdown（Markdown 归档）或 html（静态网页），
+// 可用 from / to 日期范围和 moods 心情列表筛选，timeZone 为显示日期使用的时区。
+// 启用加密时服务器只有密文，需由浏览器解密后在 entries 中提供全部日记
+const ARCHIVE_FORMATS = {
+  markdown: { build: buildMarkdownArchive, name: 'daily-life-markdown' },
+  html: { build: buildHtmlSite, name: 'daily-life-site' }
+};
+
+function isValidTimeZone(timeZone) {
   try {
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+    new Intl.DateTimeFormat('en-US', { timeZone });
     return true;
   } catch (error) {
-    console.error(`Error writing file: ${filePath}`, error);
     return false;
   }
 }
 
-// API 路由
+// 解析导出参数，无效时返回 null
+function parseArchiveRequest(body) {
+  if (!isPlainObject(body)) return null;
+  const { format, from, to, moods, timeZone = 'UTC', entries } = body;
+  if (!Object.hasOwn(ARCHIVE_FORMATS, format)) return null;
+  if ([from, to].some(value => value !== undefined && value !== null && !isValidDate(value))) return null;
+  if (moods !== undefined && moods !== null &&
+      (!Array.isArray(moods) || !moods.every(mood => typeof mood === 'string' && mood))) return null;
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) return null;
+  if (entries !== undefined && (!Array.isArray(entries) || entries.some(entry => validateEntry(entry) !== null))) return null;
+  return {
+    format,
+    filter: { from: from || undefined, to: to || undefined, moods: moods?.length ? moods : undefined },
+    timeZone,
+    entries
+  };
+}
 
-// 获取所有日记条目
-app.get('/api/entries', async (req, res) => {
+app.post('/api/export/archive', async (req, res) => {
+  const { attachments, storage, settingsFile } = currentProfile();
   try {
-    const entries = await readJSONFile(ENTRIES_FILE, []);
-    res.json(entries);
+    const request = parseArchiveRequest(req.body);
+    if (!request) {
+      return res.status(400).json({ error: 'Invalid export parameters' });
+    }
+    const settings = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+    if (settings.encryption && !request.entries) {
+      return res.status(400).json({ error: 'Encrypted entries must be decrypted before exporting', code: 'ENCRYPTED' });
+    }
+
+    const entries = (request.entries || await storage.list()).filter(entry => matchesFilter(entry, request.filter));
+    const { build, name } = ARCHIVE_FORMATS[request.format];
+    const folder = `${name}-${new Date().toISOString().split('T')[0]}`;
+    const files = build(entries, {
+      title: settings.customTexts?.appTitle || DEFAULT_SETTINGS.customTexts.appTitle,
+      timeZone: request.timeZone,
+      filter: request.filter,
+      moodScale: settings.moodScale || DEFAULT_SETTINGS.moodScale,
+      attachments: await readAttachmentFiles(attachments, entries)
+    });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${folder}.zip"`);
+    res.send(createZipArchive(files.map(file => ({ ...file, name: `${folder}/${file.name}` }))));
   } catch (error) {
-    console.error('Error fetching entries:', error);
-    res.status(500).json({ error: 'Failed to fetch entries' });
+    sendRouteError(res, error, 'Failed to export archive');
   }
 });
 
-// 保存所有日记条目
-app.post('/api/entries', async (req, res) => {
+// 读取现有日记用于比较；文件已损坏时视为没有日记，导入可以用来覆盖它
+async function readEntriesForImport() {
   try {
-    const entries = req.body;
-    const success = await writeJSONFile(ENTRIES_FILE, entries);
-    if (success) {
-      res.json({ message: 'Entries saved successfully' });
-    } else {
-      res.status(500).json({ error: 'Failed to save entries' });
+    return await currentProfile().storage.list();
+  } catch (error) {
+    if (error instanceof DataFileCorruptedError) return [];
+    throw error;
+  }
+}
+
+// 预览导入：校验数据并统计新增、更新、相同和无效的日记数量，不做任何修改。
+// strategy 与导入时相同（默认 replace），决定按哪个心情刻度检查日记的心情
+app.post('/api/import/preview', async (req, res) => {
+  const { settingsFile } = currentProfile();
+  try {
+    const strategy = req.query.strategy || 'replace';
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      return res.status(400).json({ error: 'Unknown import strategy' });
+    }
+    // 旧版本导出的数据没有 schemaVersion，先迁移到当前格式再比较
+    const importData = parseImportData(req.body);
+    if (!importData) {
+      return res.status(400).json({ error: 'Invalid import file' });
     }
+    
+    const currentEntries = await readEntriesForImport();
+    const currentSettings = await readJSONFile(settingsFile, DEFAULT_SETTINGS).catch(() => DEFAULT_SETTINGS);
+    res.json(summarizeImport(importData, analyzeImport(importData, currentEntries, currentSettings, strategy)));
   } catch (error) {
-    console.error('Error saving entries:', error);
-    res.status(500).json({ error: 'Failed to save entries' });
+    sendRouteError(res, error, 'Failed to preview import');
   }
 });
 
-// 添加新的日记条目
-app.post('/api/entries/add', async (req, res) => {
+// 导入数据：strategy 为 replace（默认）、merge 或 append。
+// 设置只在 replace 时导入；无效的日记会被跳过，设置无效时拒绝导入
+app.post('/api/import', async (req, res) => {
+  const { entriesFile, settingsFile } = currentProfile();
   try {
-    const entryData = req.body;
-    const entries = await readJSONFile(ENTRIES_FILE, []);
-    
-    const newEntry = {
-      id: Date.now().toString(),
-      date: new Date().toISOString(),
-      content: '',
-      mood: 'neutral',
-      ...entryData
-    };
+    const strategy = req.query.strategy || 'replace';
+    if (!IMPORT_STRATEGIES.includes(strategy)) {
+      return res.status(400).json({ error: 'Unknown import strategy' });
+    }
+    
+    const importData = parseImportData(req.body);
+    if (!importData) {
+      return res.status(400).json({ error: 'Invalid import file' });
+    }
     
-    entries.unshift(newEntry);
-    const success = await writeJSONFile(ENTRIES_FILE, entries);
+    const result = await withAllFileLocks(async () => {
+      const currentEntries = await readEntriesForImport();
+      const currentSettings = await readJSONFile(settingsFile, DEFAULT_SETTINGS).catch(() => DEFAULT_SETTINGS);
+      const analysis = analyzeImport(importData, currentEntries, currentSettings, strategy);
+      const importSettings = strategy === 'replace' && importData.settings !== undefined;
+      if (importSettings && analysis.settingsErrors.length > 0) {
+        return { invalidSettings: analysis.settingsErrors };
+      }
+      
+      await createSnapshotUnlocked('pre-import');
+      // 附件先于日记写入；已有的附件保持不变
+      await importAttachments(importData.attachments);
+      
+      const changes = [];
+      if (importData.entries !== undefined) {
+        changes.push([entriesFile, applyImportStrategy(strategy, currentEntries, analysis.items), currentEntries]);
+      }
+      if (importSettings) {
+        // 日记的密文只能用当前的加密参数解开，导入的设置不能替换它
+        changes.push([settingsFile, { ...importData.settings, encryption: currentSettings.encryption }, currentSettings]);
+      }
+      // 导入是用户明确的恢复操作，允许覆盖已损坏的数据文件
+      const success = await writeDataFilesTogether(changes, { force: true });
+      return { success, summary: summarizeImport(importData, analysis) };
+    });
+    await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
     
-    if (success) {
-      res.json(newEntry);
+    if (result.invalidSettings) {
+      return res.status(422).json({ error: 'Invalid settings', errors: result.invalidSettings });
+    }
+    if (result.success) {
+      res.json({ message: 'Data imported successfully', strategy, summary: result.summary });
     } else {
-      res.status(500).json({ error: 'Failed to add entry' });
+      res.status(500).json({ error: 'Failed to import data' });
     }
   } catch (error) {
-    console.error('Error adding entry:', error);
-    res.status(500).json({ error: 'Failed to add entry' });
+    sendRouteError(res, error, 'Failed to import data');
   }
 });
 
-// 更新日记条目
-app.put('/api/entries/:id', async (req, res) => {
+// ===== 加密 =====
+
+// 日记内容在浏览器中加密，服务器只保存密文和加密参数，不接触口令和密钥。
+// 启用、关闭加密或修改口令时，浏览器读取全部数据，重新加密后整体写回
+
+function isValidEncryptionConfig(config) {
+  return isPlainObject(config)
+    && typeof config.salt === 'string' && config.salt !== ''
+    && Number.isInteger(config.iterations) && config.iterations > 0
+    && typeof config.verifier === 'string' && config.verifier !== '';
+}
+
+// 两组记录的 id 和修订号完全相同，即读取之后没有新增、删除或修改
+function sameRecords(a, b) {
+  const versionOf = item => `${item.id}@${item.revision ?? 0}`;
+  const versions = new Set(a.map(versionOf));
+  return a.length === b.length && versions.size === b.length && b.every(item => versions.has(versionOf(item)));
+}
+
+// 旧的快照和 .bak 文件中仍是变更前的内容（可能是明文），加密设置变更后全部删除
+async function removeOutdatedCopies() {
+  const { backupDir, dataFiles, dataDir, entriesDbFile } = currentProfile();
+  await fs.rm(backupDir, { recursive: true, force: true });
+  for (const [filePath] of Object.values(dataFiles)) {
+    await fs.rm(`${filePath}.bak`, { force: true });
+  }
+  // SQLite 数据库升级前的备份 entries.db.v{N}.bak
+  const dbBackupPrefix = `${path.basename(entriesDbFile)}.v`;
+  for (const file of await fs.readdir(dataDir)) {
+    if (file.startsWith(dbBackupPrefix) && file.endsWith('.bak')) {
+      await fs.rm(path.join(dataDir, file), { force: true });
+    }
+  }
+}
+
+// 读取需要重新加密的全部数据：日记、历史版本和回收站
+app.get('/api/encryption/data', async (req, res) => {
+  const { storage, revisionsFile, trashFile } = currentProfile();
   try {
-    const entryId = req.params.id;
-    const updates = req.body;
-    const entries = await readJSONFile(ENTRIES_FILE, []);
-    
-    const entryIndex = entries.findIndex(entry => entry.id === entryId);
-    if (entryIndex === -1) {
-      return res.status(404).json({ error: 'Entry not found' });
+    const data = await withAllFileLocks(async () => ({
+      entries: await storage.list(),
+      revisions: await readJSONFile(revisionsFile, {}),
+      trash: await readJSONFile(trashFile, [])
+    }));
+    res.json(data);
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to read data for encryption');
+  }
+});
+
+// 写回重新加密的全部数据和新的加密参数（关闭加密时为 null），并删除旧的快照和 .bak 文件。
+// 读取之后日记或回收站有变化时返回 409，由浏览器重新读取后再试
+app.post('/api/encryption/data', async (req, res) => {
+  const { storage, trashFile, revisionsFile, settingsFile, entriesFile } = currentProfile();
+  try {
+    const { encryption, entries, revisions, trash } = isPlainObject(req.body) ? req.body : {};
+    if ((encryption !== null && !isValidEncryptionConfig(encryption)) ||
+        !Array.isArray(entries) || entries.some(entry => validateEntry(entry)) ||
+        !Array.isArray(trash) || trash.some(entry => validateEntry(entry)) ||
+        !isPlainObject(revisions) || !Object.values(revisions).every(Array.isArray)) {
+      return res.status(400).json({ error: 'Invalid encryption data' });
     }
-    
-    entries[entryIndex] = { ...entries[entryIndex], ...updates };
-    const success = await writeJSONFile(ENTRIES_FILE, entries);
-    
-    if (success) {
-      res.json({ message: 'Entry updated successfully' });
+
+    const result = await withAllFileLocks(async () => {
+      const currentEntries = await storage.list();
+      const currentTrash = await readJSONFile(trashFile, []);
+      if (!sameRecords(currentEntries, entries) || !sameRecords(currentTrash, trash)) {
+        return { conflict: true };
+      }
+      const currentRevisions = await readJSONFile(revisionsFile, {});
+      const currentSettings = await readJSONFile(settingsFile, DEFAULT_SETTINGS);
+      // 不保留 .bak，以免留下变更前的内容
+      const success = await writeDataFilesTogether([
+        [entriesFile, entries, currentEntries],
+        [revisionsFile, revisions, currentRevisions],
+        [trashFile, trash, currentTrash],
+        [settingsFile, { ...currentSettings, encryption }, currentSettings]
+      ], { backup: false });
+      if (success) {
+        await removeOutdatedCopies();
+        await createSnapshotUnlocked('encryption');
+      }
+      return { success };
+    });
+
+    if (result.conflict) {
+      return res.status(409).json({ error: 'Entries changed while re-encrypting' });
+    }
+    if (result.success) {
+      res.json({ message: 'Encryption settings updated' });
     } else {
-      res.status(500).json({ error: 'Failed to update entry' });
+      res.status(500).json({ error: 'Failed to update encryption' });
     }
   } catch (error) {
-    console.error('Error updating entry:', error);
-    res.status(500).json({ error: 'Failed to update entry' });
+    sendRouteError(res, error, 'Failed to update encryption');
   }
 });
 
-// 删除日记条目
-app.delete('/api/entries/:id', async (req, res) => {
+// 获取数据文件状态（损坏或已从备份恢复的文件）
+app.get('/api/status', (req, res) => {
+  const issues = currentDataFileIssues().map(([, issue]) => issue);
+  res.json({ ok: issues.every(issue => issue.status !== 'corrupted'), issues });
+});
+
+// 确认已知晓"已从备份恢复"的提示
+app.post('/api/status/acknowledge', (req, res) => {
+  for (const [filePath, issue] of currentDataFileIssues()) {
+    if (issue.status === 'recovered') {
+      dataFileIssues.delete(filePath);
+    }
+  }
+  res.json({ message: 'Issues acknowledged' });
+});
+
+// 将损坏的数据文件重置为空数据（损坏的内容仍保留在隔离目录中）
+app.post('/api/recovery/reset', async (req, res) => {
   try {
-    const entryId = req.params.id;
-    const entries = await readJSONFile(ENTRIES_FILE, []);
+    const { dataFiles } = currentProfile();
+    const file = isPlainObject(req.body) ? req.body.file : undefined;
+    // 只接受 dataFiles 自己的键，避免 constructor 等原型上的属性被当作文件
+    if (typeof file !== 'string' || !Object.hasOwn(dataFiles, file)) {
+      return res.status(400).json({ error: 'Unknown data file' });
+    }
     
-    const filteredEntries = entries.filter(entry => entry.id !== entryId);
-    const success = await writeJSONFile(ENTRIES_FILE, filteredEntries);
+    const [filePath, defaultValue] = dataFiles[file];
+    const success = await withFileLock(filePath, () => writeDataFile(filePath, defaultValue, { force: true }));
     
     if (success) {
-      res.json({ message: 'Entry deleted successfully' });
+      res.json({ message: 'Data file reset successfully' });
     } else {
-      res.status(500).json({ error: 'Failed to delete entry' });
+      res.status(500).json({ error: 'Failed to reset data file' });
     }
   } catch (error) {
-    console.error('Error deleting entry:', error);
-    res.status(500).json({ error: 'Failed to delete entry' });
+    sendRouteError(res, error, 'Failed to reset data file');
   }
 });
 
-// 获取设置
-app.get('/api/settings', async (req, res) => {
+// 列出所有备份快照
+app.get('/api/backups', async (req, res) => {
   try {
-    const settings = await readJSONFile(SETTINGS_FILE, {
-      theme: 'light',
-      autoSave: true,
-      showMoodOnCalendar: true
-    });
-    res.json(settings);
+    res.json(await listSnapshots());
   } catch (error) {
-    console.error('Error fetching settings:', error);
-    res.status(500).json({ error: 'Failed to fetch settings' });
+    sendRouteError(res, error, 'Failed to list backups');
   }
 });
 
-// 保存设置
-app.post('/api/settings', async (req, res) => {
+// 立即创建一个备份快照
+app.post('/api/backups', async (req, res) => {
   try {
-    const settings = req.body;
-    const success = await writeJSONFile(SETTINGS_FILE, settings);
-    
-    if (success) {
-      res.json({ message: 'Settings saved successfully' });
-    } else {
-      res.status(500).json({ error: 'Failed to save settings' });
-    }
+    res.json(await createSnapshot('manual'));
   } catch (error) {
-    console.error('Error saving settings:', error);
-    res.status(500).json({ error: 'Failed to save settings' });
+    sendRouteError(res, error, 'Failed to create backup');
   }
 });
 
-// 导出数据
-app.get('/api/export', async (req, res) => {
+// 下载快照，格式与导出数据一致，可直接用于导入
+app.get('/api/backups/:id/download', async (req, res) => {
   try {
-    const entries = await readJSONFile(ENTRIES_FILE, []);
-    const settings = await readJSONFile(SETTINGS_FILE, {
-      theme: 'light',
-      autoSave: true,
-      showMoodOnCalendar: true
-    });
+    const { id } = req.params;
+    const snapshot = isValidSnapshotId(id) && (await listSnapshots()).find(item => item.id === id);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
     
+    const snapshotDir = path.join(currentProfile().backupDir, id);
+    const entries = await readBackupFile(path.join(snapshotDir, 'entries.json'), 'entries.json') || [];
+    const snapshotAttachments = createAttachmentStore({ dirPath: path.join(snapshotDir, 'attachments') });
     const exportData = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       entries,
-      settings,
-      exportDate: new Date().toISOString()
+      settings: await readBackupFile(path.join(snapshotDir, 'settings.json'), 'settings.json') || DEFAULT_SETTINGS,
+      attachments: await exportAttachments(snapshotAttachments, entries),
+      exportDate: snapshot.createdAt
     };
     
     res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Content-Disposition', `attachment; filename="daily-life-backup-${new Date().toISOString().split('T')[0]}.json"`);
+    res.setHeader('Content-Disposition', `attachment; filename="daily-life-backup-${id}.json"`);
     res.send(JSON.stringify(exportData, null, 2));
   } catch (error) {
-    console.error('Error exporting data:', error);
-    res.status(500).json({ error: 'Failed to export data' });
+    sendRouteError(res, error, 'Failed to download backup');
   }
 });
 
-// 导入数据
-app.post('/api/import', async (req, res) => {
+// 从快照恢复数据，恢复前会先为当前数据创建快照
+app.post('/api/backups/:id/restore', async (req, res) => {
+  const { attachments, backupDir, dataFiles } = currentProfile();
   try {
-    const importData = req.body;
-    
-    if (importData.entries) {
-      await writeJSONFile(ENTRIES_FILE, importData.entries);
+    const { id } = req.params;
+    const snapshot = isValidSnapshotId(id) && (await listSnapshots()).find(item => item.id === id);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Backup not found' });
     }
     
-    if (importData.settings) {
-      await writeJSONFile(SETTINGS_FILE, importData.settings);
+    const snapshotDir = path.join(backupDir, id);
+    const restored = {};
+    for (const [file, [filePath]] of Object.entries(dataFiles)) {
+      if (!snapshot.files.includes(file)) continue;
+      const data = await readBackupFile(path.join(snapshotDir, file), file);
+      if (data === undefined) {
+        return res.status(422).json({ error: `Backup file is corrupted: ${file}` });
+      }
+      restored[filePath] = data;
     }
     
-    res.json({ message: 'Data imported successfully' });
+    const success = await withAllFileLocks(async () => {
+      await createSnapshotUnlocked('pre-restore');
+      // 先恢复附件，恢复的日记引用的附件都已存在
+      await attachments.restoreFrom(path.join(snapshotDir, 'attachments'));
+      for (const [filePath, data] of Object.entries(restored)) {
+        if (!await writeDataFile(filePath, data, { force: true })) {
+          return false;
+        }
+      }
+      return true;
+    });
+    await pruneSnapshots().catch(error => console.error('Error pruning backups:', error));
+    
+    if (success) {
+      res.json({ message: 'Backup restored successfully' });
+    } else {
+      res.status(500).json({ error: 'Failed to restore backup' });
+    }
   } catch (error) {
-    console.error('Error importing data:', error);
-    res.status(500).json({ error: 'Failed to import data' });
+    sendRouteError(res, error, 'Failed to restore backup');
   }
 });
 
+// ===== 推送 =====
+
+// 页面通过 GET /api/events 保持连接（Server-Sent Events），当前用户的日记在服务器以外被修改时收到通知
+const EVENT_KEEPALIVE_INTERVAL = 30 * 1000;
+
+function broadcastEvent(event, data) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  currentProfile().eventClients.forEach(client => client.write(message));
+}
+
+app.get('/api/events', (req, res) => {
+  const { eventClients } = currentProfile();
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+  eventClients.add(res);
+  // 定期发送注释行，避免空闲的连接被代理断开
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), EVENT_KEEPALIVE_INTERVAL);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    eventClients.delete(res);
+  });
+});
+
 // 健康检查
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', message: 'Server is running' });
 });
 
+// ===== 前端页面 =====
+
+// 提供构建后的前端文件；其他不属于 API、也不是文件的 GET 请求返回 index.html，由前端处理路由
+app.use(express.static(DIST_DIR));
+app.get('*', (req, res, next) => {
+  if (req.path.startsWith('/api/') || path.extname(req.path) !== '') {
+    return next();
+  }
+  res.sendFile(path.join(DIST_DIR, 'index.html'), error => {
+    if (error) {
+      next();
+    }
+  });
+});
+
+// 未知的 API 地址返回 JSON，而不是 Express 默认的 HTML 页面
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
+// 打开所有用户的数据
+async function openProfiles() {
+  await ensureDataDirectory(DATA_DIR);
+  const users = await readJSONFile(USERS_FILE, []);
+  for (const user of users) {
+    await openProfile(user.id);
+  }
+  return users;
+}
+
 // 启动服务器
 async function startServer() {
   try {
-    await ensureDataDirectory();
+    const users = await openProfiles();
+    await loadSessions();
+    const runScheduledBackups = () => forEachProfile(runScheduledBackup);
+    const runTrashPurges = () => forEachProfile(runTrashPurge);
+    await runScheduledBackups();
+    setInterval(runScheduledBackups, BACKUP_CHECK_INTERVAL);
+    await runTrashPurges();
+    setInterval(runTrashPurges, TRASH_PURGE_INTERVAL);
     
-    app.listen(PORT, () => {
-      console.log(`🚀 数据服务器已启动在端口 ${PORT}`);
-      console.log(`📁 数据文件目录: ${DATA_DIR}`);
-      console.log(`🌐 API地址: http://localhost:${PORT}/api`);
+    const hasFrontend = await fs.access(path.join(DIST_DIR, 'index.html')).then(() => true, () => false);
+    const server = app.listen(PORT, HOST, () => {
+      const address = `http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${server.address().port}`;
+      console.log(`🚀 数据服务器已启动在 ${address}`);
+      if (serverConfig.configFile) {
+        console.log(`⚙️ 配置文件: ${serverConfig.configFile}`);
+      }
+      console.log(`📁 数据文件目录: ${DATA_DIR}（日记存储: ${STORAGE_BACKEND}，${users.length} 个用户）`);
+      console.log(`🌐 API地址: ${address}/api`);
+      console.log(hasFrontend
+        ? `🖥️ 前端页面: ${address}/`
+        : '🖥️ 未找到构建后的前端页面，运行 npm run build 后即可由本服务器提供');
+      console.log(`🔒 允许的跨域来源: ${CORS_ORIGINS.join(', ') || '无'}`);
+      if (users.length === 0) {
+        console.log('👤 还没有账户，请在页面上创建第一个账户');
+      }
+    });
+    server.on('error', error => {
+      console.error('启动服务器失败:', error.message);
+      process.exit(1);
     });
   } catch (error) {
     console.error('启动服务器失败:', error);
@@ -248,4 +2815,56 @@ async function startServer() {
   }
 }
 
-startServer(); 
\ No newline at end of file
+// 把每个用户的日记从当前的存储后端复制到另一种后端：node server.js migrate-storage <json|sqlite> [--force]
+// 目标后端已有日记时需要 --force 才会覆盖；原数据保持不变，确认无误后再切换存储后端
+async function migrateStorage(target, force) {
+  if (!STORAGE_BACKENDS.includes(target) || target === STORAGE_BACKEND) {
+    throw new Error(`Target backend must be one of ${STORAGE_BACKENDS.filter(name => name !== STORAGE_BACKEND).join(', ')}`);
+  }
+
+  const users = await openProfiles();
+  for (const user of users) {
+    await withProfile(profiles.get(user.id), () => migrateProfileStorage(target, force, user.username));
+  }
+}
+
+async function migrateProfileStorage(target, force, username) {
+  const { storage } = currentProfile();
+  const targetStorage = createEntryStorage(target, currentProfile());
+  await targetStorage.init();
+  try {
+    const existing = await targetStorage.list();
+    if (existing.length > 0 && !force) {
+      throw new Error(`Target backend for ${username} already contains ${existing.length} entries, use --force to overwrite`);
+    }
+
+    const entries = await storage.list();
+    if (!await targetStorage.replaceAll(entries, { force: true })) {
+      throw new Error('Failed to write entries to target backend');
+    }
+    const copied = await targetStorage.list();
+    if (copied.length !== entries.length) {
+      throw new Error(`Expected ${entries.length} entries in target backend, found ${copied.length}`);
+    }
+    console.log(`✅ 已将 ${username} 的 ${entries.length} 篇日记从 ${storage.backend} 迁移到 ${target}`);
+    console.log(`   把存储后端配置为 ${target}（例如 --storage ${target}）后重新启动服务器即可使用新的存储`);
+  } finally {
+    await targetStorage.close();
+    await storage.close();
+  }
+}
+
+// 基准测试等脚本会引用文件读写函数，此时不启动服务器
+module.exports = { readJSONFile, writeJSONFile, CURRENT_SCHEMA_VERSION };
+
+if (require.main === module) {
+  const [command, target] = serverConfig.args;
+  if (command === 'migrate-storage') {
+    migrateStorage(target, serverConfig.force).catch(error => {
+      console.error('迁移存储失败:', error.message);
+      process.exit(1);
+    });
+  } else {
+    startServer();
+  }
+} 
\ No newline at end of file
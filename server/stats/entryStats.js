@@ -0,0 +1,65 @@
+// 日记统计 - 日记数和各心情、标签、情绪的统计，页面不必为了统计读取全部日记。
+// 只用到心情、标签和情绪，这些字段不加密，启用加密时服务器也能统计；
+// 前端离线时用 src/utils/entryStats.ts 按相同的规则在本地副本中统计
+
+// 各心情的日记数
+function countMoods(entries) {
+  const counts = {};
+  for (const entry of entries) {
+    counts[entry.mood] = (counts[entry.mood] || 0) + 1;
+  }
+  return counts;
+}
+
+// 各标签的日记数，按日记数从多到少排列，相同时按名称排列
+function countTags(entries) {
+  const counts = new Map();
+  for (const entry of entries) {
+    (entry.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+  }
+  return [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+}
+
+// 各情绪出现的次数和强度合计，按强度合计从大到小排列，相同时按次数排列
+function summarizeEmotions(entries) {
+  const stats = new Map();
+  for (const entry of entries) {
+    for (const { name, intensity } of entry.emotions || []) {
+      const stat = stats.get(name) || { name, count: 0, totalIntensity: 0 };
+      stat.count++;
+      stat.totalIntensity += intensity;
+      stats.set(name, stat);
+    }
+  }
+  return [...stats.values()].sort((a, b) => b.totalIntensity - a.totalIntensity || b.count - a.count);
+}
+
+// 同一篇日记中一起出现的情绪组合，权重为两者中较弱的强度之和，按权重从大到小排列
+function countEmotionPairs(entries) {
+  const pairs = new Map();
+  for (const entry of entries) {
+    const emotions = [...(entry.emotions || [])].sort((a, b) => a.name.localeCompare(b.name));
+    emotions.forEach((first, i) => {
+      for (const second of emotions.slice(i + 1)) {
+        const key = JSON.stringify([first.name, second.name]);
+        const pair = pairs.get(key) || { names: [first.name, second.name], count: 0, weight: 0 };
+        pair.count++;
+        pair.weight += Math.min(first.intensity, second.intensity);
+        pairs.set(key, pair);
+      }
+    });
+  }
+  return [...pairs.values()].sort((a, b) => b.weight - a.weight || b.count - a.count);
+}
+
+function summarizeEntries(entries) {
+  return {
+    total: entries.length,
+    moods: countMoods(entries),
+    tags: countTags(entries),
+    emotions: summarizeEmotions(entries),
+    emotionPairs: countEmotionPairs(entries)
+  };
+}
+
+module.exports = { summarizeEntries };
@@ -0,0 +1,69 @@
+// 日记的排序和筛选规则，JSON 存储、Markdown 存储和全文搜索共用；前端的 src/utils/entryQuery.ts 与此保持一致
+
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// 日记的字数：中日韩文字每个字算一个，其他文字按单词计，标点和 Markdown 符号不计
+function countWords(content) {
+  const text = String(content);
+  const cjkCount = (text.match(CJK_CHARACTER) || []).length;
+  const wordCount = (text.replace(CJK_CHARACTER, ' ').match(WORD) || []).length;
+  return cjkCount + wordCount;
+}
+
+// 按日期倒序，日期相同时 id 较大（较新）的在前
+function compareEntries(a, b) {
+  return Date.parse(b.date) - Date.parse(a.date) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+function containsText(content, text) {
+  return String(content).toLowerCase().includes(text.toLowerCase());
+}
+
+// 日记是否满足查询条件：filter 可包含 from / to 日期范围、moods 心情列表、必须全部包含的标签 tags、
+// 内容关键词 q、不能包含的词 exclude 和 minWords / maxWords 字数范围
+function matchesFilter(entry, { from, to, moods, tags, q, exclude, minWords, maxWords }) {
+  const time = Date.parse(entry.date);
+  if ((from && time < Date.parse(from)) || (to && time > Date.parse(to))) return false;
+  if (moods && !moods.includes(entry.mood)) return false;
+  if (tags && !tags.every(tag => (entry.tags || []).includes(tag))) return false;
+  if (q && !containsText(entry.content, q)) return false;
+  if (exclude && exclude.some(term => containsText(entry.content, term))) return false;
+  if (minWords !== undefined || maxWords !== undefined) {
+    const words = countWords(entry.content);
+    if ((minWords !== undefined && words < minWords) || (maxWords !== undefined && words > maxWords)) return false;
+  }
+  return true;
+}
+
+// 在按 compareEntries 排好序的列表中，找到第一篇排在 after（{ date, id }）之后的日记的位置
+function indexAfter(list, after) {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareEntries(list[mid], after) <= 0) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// 在排好序的列表中按顺序查询满足 filter 的日记：从 after 之后开始，最多返回 limit 篇。
+// 只遍历需要的部分，不复制整个列表
+function querySortedEntries(list, filter = {}, { after, limit = Infinity } = {}) {
+  const start = filter.from ? Date.parse(filter.from) : -Infinity;
+  const result = [];
+  for (let i = after ? indexAfter(list, after) : 0; i < list.length && result.length < limit; i++) {
+    // 列表按日期倒序，之后的日记都早于 from
+    if (Date.parse(list[i].date) < start) break;
+    if (matchesFilter(list[i], filter)) {
+      result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+module.exports = { compareEntries, containsText, countWords, matchesFilter, querySortedEntries };
@@ -0,0 +1,82 @@
+// Markdown 文件的 YAML 头信息（front matter）- 只支持日记需要的子集：
+// 每行一个 key: value，值为纯文本、数字、布尔值、带引号的字符串或 JSON 风格的数组和对象，
+// 以及由 "- 值" 组成的简单列表。写出时无法用纯文本表示的值一律写成 JSON，JSON 也是合法的 YAML
+const FENCE = '---';
+const KEY_LINE = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+const PLAIN_TEXT = /^[\p{L}\p{N}_][\p{L}\p{N}_.:+\-/ ]*$/u;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+const RESERVED = ['true', 'false', 'null', '~', 'yes', 'no', 'on', 'off'];
+
+function parseScalar(text) {
+  const value = text.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (NUMBER.test(value)) return Number(value);
+  if (value.startsWith('"') || value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return value;
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  // 去掉行尾注释
+  return value.replace(/\s+#.*$/, '');
+}
+
+function formatScalar(value) {
+  if (typeof value === 'string') {
+    const plain = PLAIN_TEXT.test(value) && !value.endsWith(' ') && !/: | #/.test(value) &&
+      !NUMBER.test(value) && !RESERVED.includes(value.toLowerCase());
+    return plain ? value : JSON.stringify(value);
+  }
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+// 拆分头信息和正文。没有头信息时 data 为空对象，全文都是正文
+function parseFrontMatter(text) {
+  const normalized = text.replace(/^﻿/, '').replace(/\r\n/g, '\n');
+  const lines = normalized.split('\n');
+  const end = lines[0] === FENCE ? lines.indexOf(FENCE, 1) : -1;
+  if (end === -1) {
+    return { data: {}, body: stripFinalNewline(normalized) };
+  }
+
+  const data = {};
+  let listKey = null;
+  for (const line of lines.slice(1, end)) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      data[listKey] = [...(data[listKey] || []), parseScalar(item[1])];
+      continue;
+    }
+    const match = line.match(KEY_LINE);
+    if (!match) continue;
+    const [, key, value = ''] = match;
+    data[key] = parseScalar(value);
+    // 值为空时可能是列表，列表项在之后的 "- 值" 行中
+    listKey = value.trim() === '' ? key : null;
+  }
+
+  // 头信息和正文之间的一个空行不属于正文
+  const body = lines.slice(end + 1).join('\n').replace(/^\n/, '');
+  return { data, body: stripFinalNewline(body) };
+}
+
+// 写出带头信息的 Markdown；正文末尾补一个换行，读取时再去掉，编辑器自动补上的换行不会改变内容
+function formatFrontMatter(data, body) {
+  const header = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${formatScalar(value)}`);
+  return `${FENCE}\n${header.join('\n')}\n${FENCE}\n\n${body}\n`;
+}
+
+function stripFinalNewline(text) {
+  return text.endsWith('\n') ? text.slice(0, -1) : text;
+}
+
+module.exports = { parseFrontMatter, formatFrontMatter };
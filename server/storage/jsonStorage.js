@@ -0,0 +1,283 @@
+// JSON 文件存储 - 日记常驻内存，读取不访问磁盘。
+// 每次修改只向 entries.log 追加一行记录并落盘；记录数超过阈值后，
+// 在后台把全部日记写回 entries.json（压缩），再从日志中删除已写入的部分。
+// 启动时读取 entries.json 并重放日志即可恢复最新的数据。
+// entries.json 的原子写入、损坏恢复和格式迁移由传入的 readJSONFile / writeJSONFile 负责
+const fs = require('fs').promises;
+const { compareEntries, querySortedEntries } = require('./entryQuery');
+
+const DEFAULT_COMPACT_THRESHOLD = 1000;
+
+// 日志第一行记录格式版本，之后每行是一条修改：
+// { op: 'put', entry } 新增或覆盖一篇日记；{ op: 'delete', id } 删除一篇日记。
+// 两种记录重复执行的结果相同，所以压缩中途崩溃后整份日志重放也不会出错。
+// migrate(entries, fromVersion) 用于把旧版本日志中的日记升级到当前格式
+function createJsonStorage({
+  filePath,
+  logPath,
+  schemaVersion,
+  migrate,
+  readJSONFile,
+  writeJSONFile,
+  compactThreshold = DEFAULT_COMPACT_THRESHOLD
+}) {
+  const entries = new Map();
+  let sorted = null;
+  let logHandle = null;
+  let logSize = 0;
+  let logRecords = 0;
+  // entries.json 损坏且无法恢复时的错误，此时拒绝读写，直到被 replaceAll 覆盖
+  let unavailable = null;
+
+  // 日志的追加、截断按顺序执行
+  let queue = Promise.resolve();
+  const enqueue = task => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  // entries.json 的写入按顺序执行；replaceAll 会递增 generation，使进行中的压缩放弃写入
+  let snapshotWrites = Promise.resolve();
+  const withSnapshotLock = task => {
+    const run = snapshotWrites.then(task);
+    snapshotWrites = run.catch(() => {});
+    return run;
+  };
+  let generation = 0;
+  let compaction = null;
+
+  const logHeader = () => `${JSON.stringify({ schemaVersion })}\n`;
+
+  function assertAvailable() {
+    if (unavailable) throw unavailable;
+  }
+
+  function sortedEntries() {
+    if (!sorted) {
+      sorted = [...entries.values()].sort(compareEntries);
+    }
+    return sorted;
+  }
+
+  function applyRecord(record) {
+    if (record.op === 'put') {
+      entries.set(record.entry.id, record.entry);
+    } else if (record.op === 'delete') {
+      entries.delete(record.id);
+    }
+    sorted = null;
+  }
+
+  function migrateRecord(record, fromVersion) {
+    if (record.op === 'put') {
+      return { op: 'put', entry: migrate([record.entry], fromVersion)[0] };
+    }
+    return { op: 'delete', id: migrate([{ id: record.id }], fromVersion)[0].id };
+  }
+
+  // 读取日志中的记录。无法解析的行（例如写入途中断电留下的半行）会被跳过并报告
+  async function readLog() {
+    let raw;
+    try {
+      raw = await fs.readFile(logPath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return { records: [], version: schemaVersion, size: 0, clean: true };
+      throw error;
+    }
+
+    let version = schemaVersion;
+    let clean = raw === '' || raw.endsWith('\n');
+    const records = [];
+    raw.split('\n').forEach((line, index) => {
+      if (!line) return;
+      let record;
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        console.warn(`Skipping unreadable line ${index + 1} in ${logPath}`);
+        clean = false;
+        return;
+      }
+      if (record.op === undefined) {
+        version = record.schemaVersion;
+        return;
+      }
+      records.push(version === schemaVersion ? record : migrateRecord(record, version));
+    });
+    return { records, version, size: Buffer.byteLength(raw), clean };
+  }
+
+  async function syncWrite(path, content) {
+    const handle = await fs.open(path, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // 删除日志中前 offset 字节（已写入 entries.json 的记录），只保留之后追加的部分。调用方需在队列中执行
+  async function trimLog(offset) {
+    const tail = logHandle ? (await fs.readFile(logPath)).subarray(offset) : Buffer.alloc(0);
+    if (logHandle) {
+      await logHandle.close();
+      logHandle = null;
+    }
+    const header = Buffer.from(logHeader());
+    const tempPath = `${logPath}.${process.pid}.tmp`;
+    await syncWrite(tempPath, Buffer.concat([header, tail]));
+    await fs.rename(tempPath, logPath);
+    logHandle = await fs.open(logPath, 'a');
+    logSize = header.length + tail.length;
+    logRecords = tail.toString('utf8').split('\n').filter(Boolean).length;
+  }
+
+  // 把内存中的日记写入 entries.json，再截掉日志中已包含的部分
+  async function compact() {
+    const { snapshot, offset, startGeneration } = await enqueue(async () => ({
+      snapshot: sortedEntries(),
+      offset: logSize,
+      startGeneration: generation
+    }));
+    const written = await withSnapshotLock(async () => (
+      generation === startGeneration && writeJSONFile(filePath, snapshot)
+    ));
+    if (!written) return;
+    await enqueue(async () => {
+      if (generation === startGeneration) {
+        await trimLog(offset);
+      }
+    });
+  }
+
+  function scheduleCompaction() {
+    if (logRecords < compactThreshold || compaction) return;
+    compaction = compact()
+      .catch(error => console.error(`Error compacting ${logPath}:`, error))
+      .finally(() => {
+        compaction = null;
+      });
+  }
+
+  // 先把记录追加到日志并落盘，成功后再修改内存中的数据
+  function append(record) {
+    return enqueue(async () => {
+      assertAvailable();
+      const line = `${JSON.stringify(record)}\n`;
+      try {
+        await logHandle.write(line);
+        await logHandle.datasync();
+      } catch (error) {
+        console.error(`Error appending to ${logPath}:`, error);
+        return false;
+      }
+      applyRecord(record);
+      logSize += Buffer.byteLength(line);
+      logRecords++;
+      scheduleCompaction();
+      return true;
+    });
+  }
+
+  return {
+    backend: 'json',
+
+    async init() {
+      try {
+        (await readJSONFile(filePath, [])).forEach(entry => entries.set(entry.id, entry));
+      } catch (error) {
+        // 由启动检查报告：损坏的文件会提示用户恢复，版本过新的文件会阻止启动
+        unavailable = error;
+        return;
+      }
+
+      const { records, version, size, clean } = await readLog();
+      records.forEach(applyRecord);
+      logHandle = await fs.open(logPath, 'a');
+      logSize = size;
+      logRecords = records.length;
+      if (size === 0) {
+        await logHandle.write(logHeader());
+        await logHandle.datasync();
+        logSize = Buffer.byteLength(logHeader());
+      } else if (version !== schemaVersion || !clean) {
+        // 旧版本或有残缺的日志立即压缩，之后的记录都写入一份干净的新日志
+        if (!await writeJSONFile(filePath, sortedEntries())) {
+          throw new Error(`Failed to compact ${logPath}`);
+        }
+        await trimLog(logSize);
+      }
+    },
+
+    async close() {
+      await compaction;
+      await queue;
+      if (logHandle) {
+        await logHandle.close();
+        logHandle = null;
+      }
+    },
+
+    async list() {
+      assertAvailable();
+      return [...sortedEntries()];
+    },
+
+    async get(id) {
+      assertAvailable();
+      return entries.get(id) || null;
+    },
+
+    async query(filter = {}, options = {}) {
+      assertAvailable();
+      return querySortedEntries(sortedEntries(), filter, options);
+    },
+
+    create(entry) {
+      return append({ op: 'put', entry });
+    },
+
+    async update(entry) {
+      if (!entries.has(entry.id)) {
+        assertAvailable();
+        return false;
+      }
+      return append({ op: 'put', entry });
+    },
+
+    delete(id) {
+      return append({ op: 'delete', id });
+    },
+
+    // 整体替换全部日记：直接写入 entries.json 并清空日志
+    replaceAll(newEntries, options) {
+      return enqueue(async () => {
+        generation++;
+        const success = await withSnapshotLock(() => writeJSONFile(filePath, newEntries, options));
+        if (!success) {
+          return false;
+        }
+        entries.clear();
+        newEntries.forEach(entry => entries.set(entry.id, entry));
+        sorted = null;
+        unavailable = null;
+        await trimLog(logSize);
+        return true;
+      });
+    },
+
+    // 把内存中的全部日记以 entries.json 的格式写入快照目录，数据不可用时返回 false
+    async exportTo(targetPath) {
+      if (unavailable) {
+        return false;
+      }
+      const content = { schemaVersion, entries: sortedEntries() };
+      await fs.writeFile(targetPath, JSON.stringify(content, null, 2), 'utf8');
+      return true;
+    }
+  };
+}
+
+module.exports = { createJsonStorage };
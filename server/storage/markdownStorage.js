@@ -0,0 +1,417 @@
+// Markdown 文件夹存储 - 每篇日记是一个 YYYY-MM-DD-<id>.md 文件，YAML 头信息中保存 id、日期、心情和修订号，
+// 正文即日记内容。日记同时常驻内存，读取不访问磁盘。
+// 存储会监视文件夹：在外部编辑器中新建、修改或删除的 .md 文件会被读入（修订号加一），并通过
+// onExternalChange({ type: 'create' | 'update' | 'delete', entry, previous }) 通知服务器。
+// 写入一篇日记前若发现它的文件在外部被修改但尚未读入，先把外部版本另存为一篇新日记，两边的修改都不会丢失
+const fs = require('fs').promises;
+const { watch } = require('fs');
+const path = require('path');
+const { compareEntries, querySortedEntries } = require('./entryQuery');
+const { formatFrontMatter, parseFrontMatter } = require('./frontMatter');
+
+// 文件夹中记录数据格式版本的文件
+const FORMAT_FILE = '.diary.json';
+// 文件变化后等待多久再读取，编辑器保存时往往连续触发多次事件
+const DEFAULT_WATCH_DELAY = 200;
+
+const isEntryFile = name => name.endsWith('.md') && !name.startsWith('.');
+
+const isValidDate = value => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+// 日记的文件名：按 UTC 日期命名，同一天的日记按 id 排列
+function entryFileName(entry) {
+  const time = Date.parse(entry.date);
+  const day = Number.isNaN(time) ? 'undated' : new Date(time).toISOString().slice(0, 10);
+  return `${day}-${entry.id}.md`;
+}
+
+// 日记文件的内容：id、日期、心情在头信息的最前面，正文为日记内容
+function formatEntryFile(entry) {
+  const { id, date, mood, content, ...rest } = entry;
+  return formatFrontMatter({ id, date, mood, ...rest }, content);
+}
+
+// 比较两篇日记时忽略修订号和修改时间
+function sameContent(a, b) {
+  const strip = ({ revision, updatedAt, ...rest }) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+// validate(entry) 返回错误说明或 null；generateId() 为没有 id 的文件生成新 id；
+// defaultMood() 返回没有写心情的新文件使用的心情；
+// schemaVersion / migrate(entries, fromVersion) 用于升级旧版本写入的文件夹
+function createMarkdownStorage({
+  dirPath,
+  schemaVersion,
+  migrate,
+  validate,
+  generateId,
+  defaultMood = async () => 'neutral',
+  onExternalChange = () => {},
+  watchDelay = DEFAULT_WATCH_DELAY
+}) {
+  const entries = new Map();
+  // 日记 id -> 文件名
+  const files = new Map();
+  // 文件名 -> { id, text, mtimeMs, size }：最近一次读取或写入的内容，用来区分自己的写入和外部修改
+  const known = new Map();
+  const timers = new Map();
+  let sorted = null;
+  let watcher = null;
+
+  // 文件的读写按顺序执行
+  let queue = Promise.resolve();
+  const enqueue = task => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  // 写操作失败时记录错误并返回 false，与其他存储的约定一致
+  const write = (operation, action) => enqueue(async () => {
+    try {
+      return await action();
+    } catch (error) {
+      console.error(`Error ${operation} in ${dirPath}:`, error);
+      return false;
+    }
+  });
+
+  // 通知服务器不等待其完成，服务器处理时可能需要等待正在进行的写入
+  function notify(changes) {
+    changes.forEach(change => {
+      Promise.resolve()
+        .then(() => onExternalChange(change))
+        .catch(error => console.error(`Error handling change of ${change.entry.id}:`, error));
+    });
+  }
+
+  function sortedEntries() {
+    if (!sorted) {
+      sorted = [...entries.values()].sort(compareEntries);
+    }
+    return sorted;
+  }
+
+  function setEntry(entry, name) {
+    entries.set(entry.id, entry);
+    files.set(entry.id, name);
+    sorted = null;
+  }
+
+  function dropEntry(id) {
+    entries.delete(id);
+    files.delete(id);
+    sorted = null;
+  }
+
+  async function stat(name) {
+    try {
+      return await fs.stat(path.join(dirPath, name));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  function remember(name, id, text, info) {
+    known.set(name, { id, text, mtimeMs: info.mtimeMs, size: info.size });
+  }
+
+  async function writeEntryFile(name, text, id) {
+    const filePath = path.join(dirPath, name);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(text, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+    remember(name, id, text, await fs.stat(filePath));
+  }
+
+  async function removeEntryFile(name) {
+    try {
+      await fs.unlink(path.join(dirPath, name));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    known.delete(name);
+  }
+
+  // 把日记写入对应的文件；日期变化导致文件名改变时删除原来的文件
+  async function saveEntry(entry) {
+    const previousName = files.get(entry.id);
+    const name = entryFileName(entry);
+    await writeEntryFile(name, formatEntryFile(entry), entry.id);
+    if (previousName && previousName !== name) {
+      await removeEntryFile(previousName);
+    }
+    setEntry(entry, name);
+  }
+
+  // 读入外部写入的文件内容，返回需要通知的变化。
+  // 头信息完整（id、日期、心情、修订号）的新文件原样载入；缺少字段的文件补全后按命名规则重写；
+  // 已有日记的文件内容变化时修订号加一并重写。asCopy 为 true 时总是作为一篇新日记载入
+  async function ingest(name, text, info, { initial = false, asCopy = false } = {}) {
+    const { data, body } = parseFrontMatter(text);
+    let id = data.id === null || data.id === undefined ? null : String(data.id);
+    const owner = id ? files.get(id) : undefined;
+    // 没有 id，或是复制了另一篇日记的文件（两个文件的 id 相同）时，作为新日记
+    if (!id || asCopy || (owner && owner !== name && await stat(owner))) {
+      id = generateId();
+    }
+    const previous = entries.get(id) || null;
+    const { tags, ...fields } = data;
+    const entry = {
+      ...fields,
+      id,
+      date: isValidDate(data.date) ? new Date(Date.parse(data.date)).toISOString() : data.date ?? new Date(info.mtimeMs).toISOString(),
+      mood: data.mood ?? previous?.mood ?? await defaultMood(),
+      // 手动编辑的标签可能只写了一个值，或被解析为数字
+      ...(tags === null || tags === undefined ? {} : { tags: [].concat(tags).map(String) }),
+      content: body
+    };
+
+    const error = validate(entry);
+    if (error) {
+      console.warn(`⚠️ 无法读取 ${path.join(dirPath, name)}：${error}`);
+      remember(name, known.get(name)?.id ?? null, text, info);
+      return [];
+    }
+
+    if (!previous && id === data.id && isValidDate(data.date) && typeof data.mood === 'string' && Number.isInteger(data.revision)) {
+      remember(name, id, text, info);
+      setEntry(entry, name);
+      return initial ? [] : [{ type: 'create', entry, previous: null }];
+    }
+    if (previous && sameContent(previous, { ...entry, revision: previous.revision, updatedAt: previous.updatedAt })) {
+      // 只是重命名或修改了修订号等字段
+      remember(name, id, text, info);
+      files.set(id, name);
+      return [];
+    }
+
+    const updated = {
+      ...entry,
+      revision: Math.max(Number.isInteger(data.revision) ? data.revision : 0, previous?.revision || 0) + 1,
+      updatedAt: new Date().toISOString()
+    };
+    files.set(id, files.get(id) ?? name);
+    await saveEntry(updated);
+    if (files.get(id) !== name) {
+      await removeEntryFile(name);
+    }
+    if (initial && !previous) {
+      return [];
+    }
+    return [{ type: previous ? 'update' : 'create', entry: updated, previous }];
+  }
+
+  // 重新读取一个文件，返回需要通知的变化
+  async function syncFile(name) {
+    const info = await stat(name);
+    const record = known.get(name);
+    if (!info) {
+      known.delete(name);
+      // 文件已删除；日记已改用其他文件（例如改了日期）时不算删除
+      if (record?.id && files.get(record.id) === name) {
+        const previous = entries.get(record.id);
+        dropEntry(record.id);
+        return [{ type: 'delete', entry: previous, previous }];
+      }
+      return [];
+    }
+    if (record && record.mtimeMs === info.mtimeMs && record.size === info.size) {
+      return [];
+    }
+    const text = await fs.readFile(path.join(dirPath, name), 'utf8');
+    if (record && record.text === text) {
+      remember(name, record.id, text, info);
+      return [];
+    }
+    return ingest(name, text, info);
+  }
+
+  // 没有文件名的监视事件（部分平台）时，检查整个文件夹
+  async function syncDirectory() {
+    const names = new Set((await fs.readdir(dirPath)).filter(isEntryFile));
+    const changes = [];
+    for (const name of new Set([...known.keys(), ...names])) {
+      changes.push(...await syncFile(name));
+    }
+    return changes;
+  }
+
+  // 写入一篇日记前检查它的文件是否在外部被修改：有尚未读入的修改时，把外部版本另存为新日记
+  async function preserveExternalEdit(id) {
+    const name = files.get(id);
+    const record = known.get(name);
+    const info = name ? await stat(name) : null;
+    if (!info || (record && record.mtimeMs === info.mtimeMs && record.size === info.size)) {
+      return [];
+    }
+    const text = await fs.readFile(path.join(dirPath, name), 'utf8');
+    if (record && record.text === text) {
+      return [];
+    }
+    console.warn(`⚠️ ${name} 在外部被修改，已将外部版本另存为新日记`);
+    return ingest(name, text, info, { asCopy: true });
+  }
+
+  function scheduleSync(name) {
+    clearTimeout(timers.get(name));
+    timers.set(name, setTimeout(() => {
+      timers.delete(name);
+      enqueue(() => (name === '' ? syncDirectory() : syncFile(name)))
+        .then(notify, error => console.error(`Error reading ${path.join(dirPath, name)}:`, error));
+    }, watchDelay));
+  }
+
+  function startWatching() {
+    watcher = watch(dirPath, (eventType, name) => {
+      if (!name) {
+        scheduleSync('');
+      } else if (isEntryFile(name)) {
+        scheduleSync(name);
+      }
+    });
+    watcher.on('error', error => console.error(`Error watching ${dirPath}:`, error));
+  }
+
+  async function readFormatVersion() {
+    try {
+      return JSON.parse(await fs.readFile(path.join(dirPath, FORMAT_FILE), 'utf8')).schemaVersion;
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async function writeFormatVersion() {
+    await fs.writeFile(path.join(dirPath, FORMAT_FILE), `${JSON.stringify({ schemaVersion }, null, 2)}\n`, 'utf8');
+  }
+
+  // 重新按当前格式写入全部日记（id 可能在升级中改变），并删除原来的文件
+  async function rewriteAll(newEntries) {
+    const oldNames = new Set(files.values());
+    entries.clear();
+    files.clear();
+    sorted = null;
+    for (const entry of newEntries) {
+      await saveEntry(entry);
+      oldNames.delete(files.get(entry.id));
+    }
+    for (const name of oldNames) {
+      await removeEntryFile(name);
+    }
+  }
+
+  return {
+    backend: 'markdown',
+
+    async init() {
+      await fs.mkdir(dirPath, { recursive: true });
+      const names = await fs.readdir(dirPath);
+      await Promise.all(names
+        .filter(name => name.endsWith('.tmp'))
+        .map(name => fs.unlink(path.join(dirPath, name)).catch(() => {})));
+
+      // 没有版本文件的文件夹（例如已有的笔记文件夹）按当前格式读取
+      const version = await readFormatVersion();
+      if (version !== null && version > schemaVersion) {
+        throw new Error(`${dirPath} was written by a newer version (schema ${version})`);
+      }
+      for (const name of names.filter(isEntryFile).sort()) {
+        const info = await stat(name);
+        await ingest(name, await fs.readFile(path.join(dirPath, name), 'utf8'), info, { initial: true });
+      }
+      if (version !== null && version < schemaVersion) {
+        await rewriteAll(migrate(sortedEntries(), version));
+        console.log(`🔄 已将 ${dirPath} 从版本 ${version} 升级到版本 ${schemaVersion}`);
+      }
+      if (version !== schemaVersion) {
+        await writeFormatVersion();
+      }
+      startWatching();
+    },
+
+    async close() {
+      if (watcher) {
+        watcher.close();
+        watcher = null;
+      }
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      await queue;
+    },
+
+    async list() {
+      return [...sortedEntries()];
+    },
+
+    // 先检查文件是否在外部被修改，保证修改日记时拿到的是最新版本
+    get(id) {
+      return enqueue(async () => {
+        const name = files.get(id);
+        if (name) {
+          notify(await syncFile(name));
+        }
+        return entries.get(id) || null;
+      });
+    },
+
+    async query(filter = {}, options = {}) {
+      return querySortedEntries(sortedEntries(), filter, options);
+    },
+
+    create(entry) {
+      return write('creating entry', async () => {
+        await saveEntry(entry);
+        return true;
+      });
+    },
+
+    update(entry) {
+      return write('updating entry', async () => {
+        if (!entries.has(entry.id)) {
+          return false;
+        }
+        notify(await preserveExternalEdit(entry.id));
+        await saveEntry(entry);
+        return true;
+      });
+    },
+
+    delete(id) {
+      return write('deleting entry', async () => {
+        if (!entries.has(id)) {
+          return true;
+        }
+        notify(await preserveExternalEdit(id));
+        await removeEntryFile(files.get(id));
+        dropEntry(id);
+        return true;
+      });
+    },
+
+    // 整体替换全部日记：写入新的文件并删除其余日记的文件
+    replaceAll(newEntries) {
+      return write('replacing entries', async () => {
+        await rewriteAll(newEntries);
+        return true;
+      });
+    },
+
+    // 把全部日记以 entries.json 的格式写入快照目录
+    async exportTo(targetPath) {
+      const content = { schemaVersion, entries: sortedEntries() };
+      await fs.writeFile(targetPath, JSON.stringify(content, null, 2), 'utf8');
+      return true;
+    }
+  };
+}
+
+module.exports = { createMarkdownStorage, entryFileName, formatEntryFile };
@@ -0,0 +1,178 @@
+// SQLite 存储 - 日记保存在嵌入式数据库中，按 id 和日期建立索引，
+// 读取或修改单条日记不需要加载全部数据
+const fs = require('fs').promises;
+const Database = require('better-sqlite3');
+const { containsText, countWords } = require('./entryQuery');
+
+// 日期统一转换为 ISO 格式后再比较和排序，无法解析的日期原样保存
+function toDateKey(date) {
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? String(date) : new Date(time).toISOString();
+}
+
+function toRow(entry) {
+  return { id: entry.id, date: toDateKey(entry.date), data: JSON.stringify(entry) };
+}
+
+function fromRow(row) {
+  return JSON.parse(row.data);
+}
+
+// schemaVersion 为当前的数据格式版本，保存在数据库的 user_version 中；
+// 数据库版本较旧时调用 migrate(entries, fromVersion) 升级，升级前先备份数据库文件
+function createSqliteStorage({ filename, schemaVersion, migrate }) {
+  let db = null;
+  let statements = null;
+
+  // 写操作失败时记录错误并返回 false，与 JSON 文件存储的约定一致
+  const write = (operation, action) => {
+    try {
+      action();
+      return true;
+    } catch (error) {
+      console.error(`Error ${operation} in ${filename}:`, error);
+      return false;
+    }
+  };
+
+  const insertAll = entries => {
+    entries.forEach(entry => statements.insert.run(toRow(entry)));
+  };
+
+  async function migrateDatabase(fromVersion) {
+    await db.backup(`${filename}.v${fromVersion}.bak`);
+    const entries = migrate(statements.list.all().map(fromRow), fromVersion);
+    db.transaction(() => {
+      statements.clear.run();
+      insertAll(entries);
+      db.pragma(`user_version = ${schemaVersion}`);
+    })();
+    console.log(`🔄 已将 ${filename} 从版本 ${fromVersion} 升级到版本 ${schemaVersion}`);
+  }
+
+  return {
+    backend: 'sqlite',
+
+    async init() {
+      db = new Database(filename);
+      db.pragma('journal_mode = WAL');
+      // 删除或覆盖的数据用零填充，不在数据库文件中留下旧内容（例如启用加密前的明文）
+      db.pragma('secure_delete = ON');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS entries (
+          id TEXT PRIMARY KEY,
+          date TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS entries_date ON entries (date);
+      `);
+      // 关键词匹配和字数统计与 JSON 存储使用相同的规则（SQLite 自带的 lower() 只处理 ASCII 字母）
+      db.function('contains_text', { deterministic: true }, (content, text) => (containsText(content, text) ? 1 : 0));
+      db.function('word_count', { deterministic: true }, content => countWords(content));
+      statements = {
+        list: db.prepare('SELECT data FROM entries ORDER BY date DESC, id DESC'),
+        get: db.prepare('SELECT data FROM entries WHERE id = ?'),
+        query: db.prepare(`
+          SELECT data FROM entries
+          WHERE date >= @from AND date <= @to
+            AND (date < @afterDate OR (date = @afterDate AND id < @afterId))
+            AND (@moods IS NULL OR json_extract(data, '$.mood') IN (SELECT value FROM json_each(@moods)))
+            AND (@tags IS NULL OR NOT EXISTS (
+              SELECT 1 FROM json_each(@tags) AS tag
+              WHERE tag.value NOT IN (SELECT value FROM json_each(data, '$.tags'))
+            ))
+            AND (@q IS NULL OR contains_text(json_extract(data, '$.content'), @q))
+            AND (@exclude IS NULL OR NOT EXISTS (
+              SELECT 1 FROM json_each(@exclude) WHERE contains_text(json_extract(data, '$.content'), value)
+            ))
+            AND (@minWords IS NULL OR word_count(json_extract(data, '$.content')) >= @minWords)
+            AND (@maxWords IS NULL OR word_count(json_extract(data, '$.content')) <= @maxWords)
+          ORDER BY date DESC, id DESC
+          LIMIT @limit
+        `),
+        insert: db.prepare('INSERT INTO entries (id, date, data) VALUES (@id, @date, @data)'),
+        update: db.prepare('UPDATE entries SET date = @date, data = @data WHERE id = @id'),
+        delete: db.prepare('DELETE FROM entries WHERE id = ?'),
+        clear: db.prepare('DELETE FROM entries')
+      };
+
+      // 新建的数据库 user_version 为 0
+      const version = db.pragma('user_version', { simple: true });
+      if (version === 0) {
+        db.pragma(`user_version = ${schemaVersion}`);
+      } else if (version !== schemaVersion) {
+        await migrateDatabase(version);
+      }
+    },
+
+    async close() {
+      if (db) {
+        db.close();
+        db = null;
+      }
+    },
+
+    async list() {
+      return statements.list.all().map(fromRow);
+    },
+
+    async get(id) {
+      const row = statements.get.get(id);
+      return row ? fromRow(row) : null;
+    },
+
+    // 按顺序查询满足 filter 的日记：从 after（{ date, id }）之后开始，最多返回 limit 篇
+    async query({ from, to, moods, tags, q, exclude, minWords, maxWords } = {}, { after, limit } = {}) {
+      return statements.query.all({
+        from: from ? toDateKey(from) : '',
+        to: to ? toDateKey(to) : '\uffff',
+        afterDate: after ? toDateKey(after.date) : '\uffff',
+        afterId: after ? after.id : '',
+        moods: moods ? JSON.stringify(moods) : null,
+        tags: tags ? JSON.stringify(tags) : null,
+        q: q || null,
+        exclude: exclude ? JSON.stringify(exclude) : null,
+        minWords: minWords ?? null,
+        maxWords: maxWords ?? null,
+        // LIMIT -1 表示不限
+        limit: Number.isFinite(limit) ? limit : -1
+      }).map(fromRow);
+    },
+
+    async create(entry) {
+      return write('inserting entry', () => statements.insert.run(toRow(entry)));
+    },
+
+    async update(entry) {
+      return write('updating entry', () => {
+        if (statements.update.run(toRow(entry)).changes === 0) {
+          throw new Error(`Entry not found: ${entry.id}`);
+        }
+      });
+    },
+
+    async delete(id) {
+      return write('deleting entry', () => statements.delete.run(id));
+    },
+
+    // 整体替换后把 WAL 中的旧页写回并清空，旧内容不会残留在 WAL 文件中
+    async replaceAll(entries) {
+      return write('replacing entries', () => {
+        db.transaction(() => {
+          statements.clear.run();
+          insertAll(entries);
+        })();
+        db.pragma('wal_checkpoint(TRUNCATE)');
+      });
+    },
+
+    // 把全部日记以 entries.json 的格式写入快照目录，便于用任一后端恢复
+    async exportTo(targetPath) {
+      const content = { schemaVersion, entries: statements.list.all().map(fromRow) };
+      await fs.writeFile(targetPath, JSON.stringify(content, null, 2), 'utf8');
+      return true;
+    }
+  };
+}
+
+module.exports = { createSqliteStorage };
@@ -0,0 +1,35 @@
+// 日记标签 - 标签保存在日记的 tags 列表中（不带 #），编辑日记时正文中的 #标签 会自动加入列表。
+// 代码块和行内代码中的 # 不算标签；前端的 src/utils/hashtags.ts 与此保持一致
+const TAG = /^[\p{L}\p{N}_][\p{L}\p{N}_\-/]*$/u;
+// # 前面不能是文字、& 或 /，排除 Markdown 标题（# 后有空格）、网址中的 #锚点和 HTML 实体
+const HASHTAG = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_][\p{L}\p{N}_\-/]*)/gu;
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+const MAX_TAG_LENGTH = 50;
+
+function isValidTag(tag) {
+  return typeof tag === 'string' && tag.length <= MAX_TAG_LENGTH && TAG.test(tag);
+}
+
+function isValidTagList(tags) {
+  return Array.isArray(tags) && tags.every(isValidTag) && new Set(tags).size === tags.length;
+}
+
+// 只对代码以外的部分调用 replace
+function replaceOutsideCode(content, replace) {
+  let result = '';
+  let position = 0;
+  for (const match of content.matchAll(CODE)) {
+    result += replace(content.slice(position, match.index)) + match[0];
+    position = match.index + match[0].length;
+  }
+  return result + replace(content.slice(position));
+}
+
+// 把正文中的 #tag 改为 #newTag；newTag 为 null 时去掉 #，只保留文字
+function replaceHashtag(content, tag, newTag) {
+  return replaceOutsideCode(content, text => text.replace(HASHTAG, (match, prefix, name) => (
+    name === tag ? `${prefix}${newTag === null ? name : `#${newTag}`}` : match
+  )));
+}
+
+module.exports = { MAX_TAG_LENGTH, isValidTag, isValidTagList, replaceHashtag };
@@ -1,27 +1,476 @@
 // 数据服务API - 用于处理本地文件读写
-import { Entry, Settings } from '../types';
+// 日记和设置会同步保存到本地缓存；服务器无法连接时从缓存读取，
+// 写操作进入待同步队列，恢复连接后按顺序重放。
+// 启用加密后，日记内容在发送前加密，缓存和待同步队列中也只保存密文，读取时再解密。
+// 每个请求都带上登录令牌，服务器返回 401 时清除会话并回到登录界面
+import { ArchiveFormat, Attachment, AuthResult, AuthUser, BackupInfo, DataIssue, EncryptionConfig, Entry, EntryChange, EntryFilter, EntryPage, EntryRevision, EntryStats, ImportPreview, ImportStrategy, MoodOption, SaveMoodScaleResult, SearchResult, Settings, SyncState, TrashedEntry, UpdateEntryResult } from '../types';
+import { decryptRecord, decryptText, encryptContent, encryptText, getSessionKey, isEncrypted, setSessionKey } from './encryption';
+import { replaceHashtag } from '../utils/hashtags';
+import {
+  OutboxOperation,
+  deleteCachedEntry,
+  enqueueOperation,
+  getCachedEntries,
+  getCachedSettings,
+  getOutbox,
+  putCachedEntry,
+  putCachedSettings,
+  queryCachedEntries,
+  searchCachedEntries,
+  summarizeCachedEntries,
+  remapCachedEntry,
+  removeOutboxItem,
+  replaceCachedEntries,
+  updateCachedEntry
+} from './localCache';
+import { clearSession, getSession, setSession } from './session';
+import { paginateEntries, searchEntryList } from '../utils/entryQuery';
+import { summarizeEntries } from '../utils/entryStats';
+import { createImageThumbnail } from '../utils/imageThumbnail';
 
-const API_BASE_URL = 'http://localhost:3001/api';
+// 使用相对地址：生产环境中页面和 API 由同一个服务器提供，开发时由 vite 代理到后端
+const API_BASE_URL = '/api';
+
+// 离线创建的日记在同步前使用的临时 id 前缀
+const LOCAL_ID_PREFIX = 'local-';
+
+// 日记本每次加载的日记数
+const ENTRIES_PAGE_SIZE = 20;
+// 服务器允许的每页最大日记数
+const MAX_ENTRIES_PAGE_SIZE = 100;
+
+// 离线时检查服务器是否恢复的间隔
+const HEALTH_CHECK_INTERVAL = 5000;
+
+// 推送连接断开后重新连接的间隔
+const EVENTS_RETRY_INTERVAL = 5000;
+
+// 服务器无法连接时 fetch 会抛出 TypeError
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+// 向服务器发送请求，附带当前会话的令牌；令牌失效时清除会话
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const session = getSession();
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      ...(session ? { Authorization: `Bearer ${session.token}` } : {}),
+    },
+  });
+  if (response.status === 401 && session) {
+    clearSession();
+  }
+  return response;
+}
+
+const logCacheError = (error: unknown) => {
+  console.error('Error updating local cache:', error);
+};
+
+// 服务器无法按加密后的内容筛选，这些条件需要在解密后的日记中查询
+const hasContentFilter = (filter: EntryFilter) =>
+  Boolean(filter.q) || (filter.exclude?.length ?? 0) > 0 || filter.minWords !== undefined || filter.maxWords !== undefined;
+
+// 加密设置变更的结果：conflict 表示处理期间日记被修改，需要重试
+export type EncryptionChangeResult = 'saved' | 'conflict' | 'failed';
 
 export class DataService {
+  private static syncState: SyncState = { status: 'online', pendingCount: 0 };
+  private static listeners = new Set<(state: SyncState) => void>();
+  private static healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private static syncPromise: Promise<void> | null = null;
+  // 附件文件的对象 URL（附件 id 和原图 / 缩略图 -> URL）。附件不会被修改，URL 可以一直使用
+  private static attachmentUrls = new Map<string, Promise<string | null>>();
+
+  // 订阅连接和同步状态的变化，返回取消订阅的函数
+  static subscribe(listener: (state: SyncState) => void): () => void {
+    DataService.listeners.add(listener);
+    listener(DataService.syncState);
+    return () => {
+      DataService.listeners.delete(listener);
+    };
+  }
+
+  private static setSyncState(updates: Partial<SyncState>) {
+    DataService.syncState = { ...DataService.syncState, ...updates };
+    DataService.listeners.forEach(listener => listener(DataService.syncState));
+  }
+
+  // 切换到离线状态，并定期检查服务器是否恢复
+  private static goOffline() {
+    DataService.setSyncState({ status: 'offline' });
+    if (DataService.healthCheckTimer === null) {
+      DataService.healthCheckTimer = setInterval(() => {
+        DataService.checkConnection();
+      }, HEALTH_CHECK_INTERVAL);
+    }
+  }
+
+  // 检查服务器是否可用，可用时同步离线期间的修改
+  static async checkConnection(): Promise<boolean> {
+    try {
+      const response = await apiFetch(`/health`);
+      if (!response.ok) {
+        throw new Error('Server is not healthy');
+      }
+    } catch (error) {
+      DataService.goOffline();
+      // 上次会话中可能留有未同步的操作
+      const outbox = await getOutbox().catch(() => []);
+      DataService.setSyncState({ pendingCount: outbox.length });
+      return false;
+    }
+
+    if (DataService.healthCheckTimer !== null) {
+      clearInterval(DataService.healthCheckTimer);
+      DataService.healthCheckTimer = null;
+    }
+    await DataService.syncOutbox();
+    return DataService.syncState.status === 'online';
+  }
+
+  // 同步待同步队列，同一时间只有一个同步在进行
+  static syncOutbox(): Promise<void> {
+    if (!DataService.syncPromise) {
+      DataService.syncPromise = DataService.replayOutbox().finally(() => {
+        DataService.syncPromise = null;
+      });
+    }
+    return DataService.syncPromise;
+  }
+
+  private static async replayOutbox(): Promise<void> {
+    try {
+      // 同步过程中可能有新的操作入队，因此循环直到队列为空
+      for (let outbox = await getOutbox(); outbox.length > 0; outbox = await getOutbox()) {
+        DataService.setSyncState({ status: 'syncing', pendingCount: outbox.length });
+        for (const item of outbox) {
+          // 服务器据此接受离线期间从心情刻度中删除的心情，见 server.js 的 isOfflineReplay
+          const response = await DataService.sendOperation(item.operation, { 'X-Offline-Replay': '1' });
+          // 未登录时保留队列，重新登录后再同步
+          if (response.status === 401 || response.status >= 500) {
+            throw new Error(`Failed to sync ${item.operation.type}`);
+          }
+          const isRemapped = response.ok && item.operation.type === 'addEntry';
+          if (!response.ok) {
+            // 4xx（例如记录已在别处删除）重试也不会成功，丢弃该操作
+            console.warn(`Discarding offline ${item.operation.type}: server responded ${response.status}`);
+          } else if (item.operation.type === 'addEntry') {
+            await remapCachedEntry(item.operation.entry.id, await response.json());
+          }
+          await removeOutboxItem(item.seq);
+          DataService.setSyncState({ pendingCount: DataService.syncState.pendingCount - 1 });
+          // remapCachedEntry 已把队列中之后的操作改为正式 id，手中的是改之前读出的副本，重新读取队列
+          if (isRemapped) {
+            break;
+          }
+        }
+      }
+      DataService.setSyncState({ status: 'online', pendingCount: 0 });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return;
+      }
+      console.error('Error syncing offline changes:', error);
+      // 保留剩余操作，下次写入或重新连接时再试
+      DataService.setSyncState({ status: 'online' });
+    }
+  }
+
+  private static sendOperation(operation: OutboxOperation, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    const json = (method: string, body: unknown): RequestInit => ({
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...extraHeaders,
+      },
+      body: JSON.stringify(body),
+    });
+
+    switch (operation.type) {
+      case 'addEntry':
+        return apiFetch(`/entries/add`, json('POST', operation.entry));
+      case 'updateEntry':
+        return apiFetch(`/entries/${operation.id}`, json('PUT', operation.updates));
+      case 'deleteEntry':
+        return apiFetch(`/entries/${operation.id}`, { method: 'DELETE' });
+      case 'saveSettings':
+        return apiFetch(`/settings`, json('POST', operation.settings));
+    }
+  }
+
+  // 执行写操作：在线且没有积压时直接发送；否则写入待同步队列并返回 null。
+  // directHeaders 只用于直接发送（例如 If-Match），离线重放时以最后写入为准
+  private static async mutate(operation: OutboxOperation, directHeaders?: Record<string, string>): Promise<Response | null> {
+    if (DataService.syncState.status === 'online' && DataService.syncState.pendingCount === 0) {
+      try {
+        return await DataService.sendOperation(operation, directHeaders);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
+        }
+        DataService.goOffline();
+      }
+    }
+
+    await enqueueOperation(operation);
+    DataService.setSyncState({ pendingCount: DataService.syncState.pendingCount + 1 });
+    if (DataService.syncState.status === 'online') {
+      DataService.syncOutbox();
+    }
+    return null;
+  }
+
+  // 接收服务器推送的日记变化，连接断开后自动重连；返回断开连接的函数
+  static subscribeToChanges(listener: (change: EntryChange) => void): () => void {
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = async () => {
+      try {
+        const response = await apiFetch('/events', { signal: controller.signal });
+        if (response.status === 401) {
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error('Failed to connect to event stream');
+        }
+        // Server-Sent Events：事件之间以空行分隔，每行为 "字段: 值"
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          buffer += chunk.value;
+          const events = buffer.split('\n\n');
+          buffer = events.pop() ?? '';
+          events.forEach(event => {
+            const fields = new Map(event.split('\n').map(line => {
+              const separator = line.indexOf(': ');
+              return [line.slice(0, separator), line.slice(separator + 2)] as [string, string];
+            }));
+            if (fields.get('event') === 'entries' && fields.has('data')) {
+              listener(JSON.parse(fields.get('data')!));
+            }
+          });
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        if (!isNetworkError(error)) {
+          console.error('Error receiving changes:', error);
+        }
+      }
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, EVENTS_RETRY_INTERVAL);
+      }
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      if (retryTimer !== null) {
+        clearTimeout(retryTimer);
+      }
+    };
+  }
+
   // 读取所有日记条目
   static async getEntries(): Promise<Entry[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/entries`);
+      const response = await apiFetch(`/entries`);
       if (!response.ok) {
         throw new Error('Failed to fetch entries');
       }
-      return await response.json();
+      const entries: Entry[] = await response.json();
+      // 还有未同步的离线修改时，以包含这些修改的本地副本为准
+      if (DataService.syncState.pendingCount > 0) {
+        return await Promise.all((await getCachedEntries()).map(decryptRecord));
+      }
+      replaceCachedEntries(entries).catch(logCacheError);
+      return await Promise.all(entries.map(decryptRecord));
     } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return getCachedEntries().then(cached => Promise.all(cached.map(decryptRecord))).catch(cacheError => {
+          logCacheError(cacheError);
+          return [];
+        });
+      }
       console.error('Error fetching entries:', error);
       return [];
     }
   }
 
+  // 用服务器上的全部日记更新本地副本，供离线时读取。只写入缓存，不解密也不返回日记
+  static async refreshCache(): Promise<void> {
+    // 还有未同步的离线修改时，本地副本比服务器新
+    if (DataService.syncState.status !== 'online' || DataService.syncState.pendingCount > 0) {
+      return;
+    }
+    try {
+      const response = await apiFetch(`/entries`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch entries');
+      }
+      await replaceCachedEntries(await response.json());
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return;
+      }
+      console.error('Error refreshing cache:', error);
+    }
+  }
+
+  // 读取一篇日记并更新本地副本，不存在或读取失败时返回 null
+  static async getEntry(id: string): Promise<Entry | null> {
+    try {
+      const response = await apiFetch(`/entries/${encodeURIComponent(id)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch entry');
+      }
+      const entry: Entry = await response.json();
+      await putCachedEntry(entry).catch(logCacheError);
+      return await decryptRecord(entry);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+      }
+      console.error('Error fetching entry:', error);
+      return null;
+    }
+  }
+
+  private static appendFilterParams(params: URLSearchParams, filter: EntryFilter) {
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+    if (filter.moods && filter.moods.length > 0) params.set('mood', filter.moods.join(','));
+    if (filter.tags && filter.tags.length > 0) params.set('tag', filter.tags.join(','));
+    if (filter.q) params.set('q', filter.q);
+    filter.exclude?.forEach(term => params.append('exclude', term));
+    if (filter.minWords !== undefined) params.set('minWords', String(filter.minWords));
+    if (filter.maxWords !== undefined) params.set('maxWords', String(filter.maxWords));
+  }
+
+  // 分页读取满足条件的日记，cursor 为上一页返回的 nextCursor，第一页传 null
+  static async getEntriesPage(filter: EntryFilter, cursor: string | null, limit = ENTRIES_PAGE_SIZE): Promise<EntryPage> {
+    if (getSessionKey() && hasContentFilter(filter)) {
+      return paginateEntries(await DataService.getEntries(), filter, cursor, limit);
+    }
+    const page = await DataService.fetchEntriesPage(filter, cursor, limit);
+    return { ...page, entries: await Promise.all(page.entries.map(decryptRecord)) };
+  }
+
+  private static async fetchEntriesPage(filter: EntryFilter, cursor: string | null, limit: number): Promise<EntryPage> {
+    const readCache = () => queryCachedEntries(filter, cursor, limit).catch(cacheError => {
+      logCacheError(cacheError);
+      return { entries: [], nextCursor: null };
+    });
+    // 还有未同步的离线修改时，以包含这些修改的本地副本为准
+    if (DataService.syncState.status !== 'online' || DataService.syncState.pendingCount > 0) {
+      return readCache();
+    }
+
+    try {
+      const params = new URLSearchParams({ limit: String(limit) });
+      DataService.appendFilterParams(params, filter);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await apiFetch(`/entries?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch entries');
+      }
+      return await response.json();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return readCache();
+      }
+      console.error('Error fetching entries:', error);
+      return { entries: [], nextCursor: null };
+    }
+  }
+
+  // 逐页读取满足条件的全部日记，只用于范围有限的查询，例如日历中的一个月
+  static async queryEntries(filter: EntryFilter): Promise<Entry[]> {
+    const entries: Entry[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: EntryPage = await DataService.getEntriesPage(filter, cursor, MAX_ENTRIES_PAGE_SIZE);
+      entries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return entries;
+  }
+
+  // 满足条件的日记的统计，由服务器计算；离线时在本地副本中统计
+  static async getStats(filter: EntryFilter = {}): Promise<EntryStats> {
+    const readCache = () => summarizeCachedEntries(filter).catch(cacheError => {
+      logCacheError(cacheError);
+      return summarizeEntries([]);
+    });
+    if (DataService.syncState.status !== 'online' || DataService.syncState.pendingCount > 0) {
+      return readCache();
+    }
+
+    try {
+      const params = new URLSearchParams();
+      DataService.appendFilterParams(params, filter);
+
+      const response = await apiFetch(`/stats?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch stats');
+      }
+      return await response.json();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return readCache();
+      }
+      console.error('Error fetching stats:', error);
+      return summarizeEntries([]);
+    }
+  }
+
+  // 全文搜索日记，结果按相关度排序并带有高亮摘要；offset 为已加载的结果数
+  // 启用加密后服务器无法建立索引，改为在解密后的日记中按关键词匹配
+  static async searchEntries(q: string, filter: EntryFilter, offset = 0, limit = ENTRIES_PAGE_SIZE): Promise<SearchResult> {
+    if (getSessionKey()) {
+      return searchEntryList(await DataService.getEntries(), q, filter, offset, limit);
+    }
+    const readCache = () => searchCachedEntries(q, filter, offset, limit).catch(cacheError => {
+      logCacheError(cacheError);
+      return { total: 0, hits: [] };
+    });
+    if (DataService.syncState.status !== 'online' || DataService.syncState.pendingCount > 0) {
+      return readCache();
+    }
+
+    try {
+      const params = new URLSearchParams({ q, offset: String(offset), limit: String(limit) });
+      DataService.appendFilterParams(params, filter);
+
+      const response = await apiFetch(`/search?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to search entries');
+      }
+      return await response.json();
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        return readCache();
+      }
+      console.error('Error searching entries:', error);
+      return { total: 0, hits: [] };
+    }
+  }
+
   // 保存日记条目
   static async saveEntries(entries: Entry[]): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/entries`, {
+      const response = await apiFetch(`/entries`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -36,65 +485,311 @@ export class DataService {
   }
 
   // 添加新的日记条目
+  // 正式的 id 由服务器生成；离线时先使用临时 id，同步后替换为服务器分配的 id。
+  // 没有指定心情时不在这里补上，由服务器使用心情刻度中的默认心情
   static async addEntry(entry: Partial<Entry>): Promise<Entry | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/entries/add`, {
+      const localEntry = {
+        id: `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        date: new Date().toISOString(),
+        content: '',
+        ...entry
+      } as Entry;
+      localEntry.content = await encryptContent(localEntry.content);
+      const response = await DataService.mutate({ type: 'addEntry', entry: localEntry });
+      if (response && !response.ok) {
+        throw new Error('Failed to add entry');
+      }
+      const newEntry: Entry = response ? await response.json() : localEntry;
+      await putCachedEntry(newEntry).catch(logCacheError);
+      return await decryptRecord(newEntry);
+    } catch (error) {
+      console.error('Error adding entry:', error);
+      return null;
+    }
+  }
+
+  // 更新日记条目。传入 expectedRevision 时，只有服务器上的修订号一致才会更新
+  static async updateEntry(id: string, updates: Partial<Entry>, expectedRevision?: number): Promise<UpdateEntryResult> {
+    try {
+      const headers: Record<string, string> = expectedRevision === undefined ? {} : { 'If-Match': `"${expectedRevision}"` };
+      if (updates.content !== undefined) {
+        updates = { ...updates, content: await encryptContent(updates.content) };
+      }
+      const response = await DataService.mutate({ type: 'updateEntry', id, updates }, headers);
+      if (!response) {
+        await updateCachedEntry(id, updates).catch(logCacheError);
+        return { status: 'queued' };
+      }
+      if (response.status === 409) {
+        const { current }: { current: Entry } = await response.json();
+        await putCachedEntry(current).catch(logCacheError);
+        return { status: 'conflict', current: await decryptRecord(current) };
+      }
+      if (!response.ok) {
+        return { status: 'failed' };
+      }
+      const entry: Entry = await response.json();
+      await putCachedEntry(entry).catch(logCacheError);
+      return { status: 'saved', entry: await decryptRecord(entry) };
+    } catch (error) {
+      console.error('Error updating entry:', error);
+      return { status: 'failed' };
+    }
+  }
+
+  // 获取日记条目的历史版本
+  static async getRevisions(id: string): Promise<EntryRevision[]> {
+    try {
+      const response = await apiFetch(`/entries/${id}/revisions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch revisions');
+      }
+      const revisions: EntryRevision[] = await response.json();
+      return await Promise.all(revisions.map(decryptRecord));
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      return [];
+    }
+  }
+
+  // 删除日记条目（移入回收站）
+  static async deleteEntry(id: string): Promise<boolean> {
+    try {
+      const response = await DataService.mutate({ type: 'deleteEntry', id });
+      if (response && !response.ok) {
+        return false;
+      }
+      await deleteCachedEntry(id).catch(logCacheError);
+      return true;
+    } catch (error) {
+      console.error('Error deleting entry:', error);
+      return false;
+    }
+  }
+
+  // 上传附件。照片同时上传在浏览器中生成的缩略图，语音同时上传时长。需要在线，返回的附件信息保存到日记的 attachments 中
+  static async uploadAttachment(file: File, details: { duration?: number } = {}): Promise<Attachment | null> {
+    try {
+      const form = new FormData();
+      form.append('file', file, file.name || 'attachment');
+      if (file.type.startsWith('image/')) {
+        const { thumbnail, width, height } = await createImageThumbnail(file);
+        if (thumbnail) form.append('thumbnail', thumbnail, 'thumbnail.jpg');
+        if (width && height) {
+          form.append('width', String(width));
+          form.append('height', String(height));
+        }
+      }
+      if (details.duration !== undefined) {
+        form.append('duration', String(details.duration));
+      }
+      const response = await apiFetch(`/attachments`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(entry),
+        body: form,
       });
       if (!response.ok) {
-        throw new Error('Failed to add entry');
+        throw new Error('Failed to upload attachment');
       }
       return await response.json();
     } catch (error) {
-      console.error('Error adding entry:', error);
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+      }
+      console.error('Error uploading attachment:', error);
       return null;
     }
   }
 
-  // 更新日记条目
-  static async updateEntry(id: string, updates: Partial<Entry>): Promise<boolean> {
+  // 附件文件的对象 URL，可直接用于 <img>。请求需要携带登录令牌，因此先下载再生成 URL
+  static getAttachmentUrl(id: string, variant: 'original' | 'thumbnail' = 'original'): Promise<string | null> {
+    const key = `${id}:${variant}`;
+    const cached = DataService.attachmentUrls.get(key);
+    if (cached) {
+      return cached;
+    }
+    const url = (async () => {
+      try {
+        const response = await apiFetch(`/attachments/${encodeURIComponent(id)}${variant === 'thumbnail' ? '/thumbnail' : ''}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch attachment');
+        }
+        return URL.createObjectURL(await response.blob());
+      } catch (error) {
+        console.error('Error fetching attachment:', error);
+        // 失败的结果不缓存，下次重新请求
+        DataService.attachmentUrls.delete(key);
+        return null;
+      }
+    })();
+    DataService.attachmentUrls.set(key, url);
+    return url;
+  }
+
+  // 获取回收站中的记录
+  static async getTrash(): Promise<TrashedEntry[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/entries/${id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updates),
+      const response = await apiFetch(`/trash`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch trash');
+      }
+      const trash: TrashedEntry[] = await response.json();
+      return await Promise.all(trash.map(decryptRecord));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      return [];
+    }
+  }
+
+  // 从回收站恢复记录
+  static async restoreEntry(id: string): Promise<Entry | null> {
+    try {
+      const response = await apiFetch(`/trash/${id}/restore`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to restore entry');
+      }
+      return await decryptRecord(await response.json());
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      return null;
+    }
+  }
+
+  // 彻底删除回收站中的记录
+  static async purgeEntry(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`/trash/${id}`, {
+        method: 'DELETE',
       });
       return response.ok;
     } catch (error) {
-      console.error('Error updating entry:', error);
+      console.error('Error purging entry:', error);
       return false;
     }
   }
 
-  // 删除日记条目
-  static async deleteEntry(id: string): Promise<boolean> {
+  // 清空回收站
+  static async emptyTrash(): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/entries/${id}`, {
+      const response = await apiFetch(`/trash`, {
         method: 'DELETE',
       });
       return response.ok;
     } catch (error) {
-      console.error('Error deleting entry:', error);
+      console.error('Error emptying trash:', error);
       return false;
     }
   }
 
+  // 启用加密时服务器无法修改密文中的 #标签：先在浏览器中解密带有该标签的日记，修改正文后重新加密保存，
+  // 再由服务器修改标签列表。回收站中的日记正文不修改
+  private static async rewriteEncryptedHashtags(tag: string, newTag: string | null): Promise<boolean> {
+    if (!getSessionKey()) {
+      return true;
+    }
+    for (const entry of await DataService.queryEntries({ tags: [tag] })) {
+      const content = replaceHashtag(entry.content, tag, newTag);
+      if (content !== entry.content && (await DataService.updateEntry(entry.id, { content }, entry.revision)).status !== 'saved') {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // 在全部日记中把标签改名，新名称已存在时合并两个标签。需要在线，返回修改的日记数，失败时返回 null
+  static async renameTag(tag: string, name: string): Promise<number | null> {
+    try {
+      if (!await DataService.rewriteEncryptedHashtags(tag, name)) {
+        throw new Error('Failed to rewrite encrypted hashtags');
+      }
+      const response = await apiFetch(`/tags/${encodeURIComponent(tag)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to rename tag');
+      }
+      return (await response.json()).updated;
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      return null;
+    }
+  }
+
+  // 从全部日记中删除标签。需要在线，返回修改的日记数，失败时返回 null
+  static async deleteTag(tag: string): Promise<number | null> {
+    try {
+      if (!await DataService.rewriteEncryptedHashtags(tag, null)) {
+        throw new Error('Failed to rewrite encrypted hashtags');
+      }
+      const response = await apiFetch(`/tags/${encodeURIComponent(tag)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete tag');
+      }
+      return (await response.json()).updated;
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      return null;
+    }
+  }
+
+  // 保存心情刻度：replacements 为 { 旧心情: 新心情 }，日记中被删除的心情替换为新心情。需要在线。
+  // 日记（包括回收站和历史版本）仍在使用刻度中没有、也没有指定替换的心情时返回 in-use 和这些心情
+  static async saveMoodScale(moodScale: MoodOption[], replacements: Record<string, string>): Promise<SaveMoodScaleResult> {
+    try {
+      const response = await apiFetch(`/moods`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ moodScale, replacements }),
+      });
+      if (response.status === 409) {
+        return { status: 'in-use', moods: (await response.json()).moods };
+      }
+      if (!response.ok) {
+        throw new Error('Failed to save mood scale');
+      }
+      return { status: 'saved', updated: (await response.json()).updated };
+    } catch (error) {
+      console.error('Error saving mood scale:', error);
+      return { status: 'failed' };
+    }
+  }
+
   // 读取设置
   static async getSettings(): Promise<Settings> {
     try {
-      const response = await fetch(`${API_BASE_URL}/settings`);
+      const response = await apiFetch(`/settings`);
       if (!response.ok) {
         throw new Error('Failed to fetch settings');
       }
-      return await response.json();
+      const settings: Settings = await response.json();
+      if (DataService.syncState.pendingCount > 0) {
+        return (await getCachedSettings()) ?? settings;
+      }
+      putCachedSettings(settings).catch(logCacheError);
+      return settings;
     } catch (error) {
-      console.error('Error fetching settings:', error);
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+        const cached = await getCachedSettings().catch(cacheError => {
+          logCacheError(cacheError);
+          return null;
+        });
+        if (cached) {
+          return cached;
+        }
+      } else {
+        console.error('Error fetching settings:', error);
+      }
       return {
         theme: 'light' as const,
         autoSave: true,
@@ -105,7 +800,18 @@ export class DataService {
           heroTitle: '你的生活，你的故事',
           heroSubtitle: '记录美好时刻，追踪心情变化，反思人生旅程',
           startButtonText: '开始写作'
-        }
+        },
+        backupRetention: {
+          daily: 7,
+          weekly: 4,
+          monthly: 6
+        },
+        trashRetentionDays: 30,
+        savedSearches: [],
+        // 空的心情刻度由页面换成默认刻度
+        moodScale: [],
+        encryption: null,
+        autoLockMinutes: 15
       };
     }
   }
@@ -113,14 +819,12 @@ export class DataService {
   // 保存设置
   static async saveSettings(settings: Settings): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/settings`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(settings),
-      });
-      return response.ok;
+      const response = await DataService.mutate({ type: 'saveSettings', settings });
+      if (response && !response.ok) {
+        return false;
+      }
+      await putCachedSettings(settings).catch(logCacheError);
+      return true;
     } catch (error) {
       console.error('Error saving settings:', error);
       return false;
@@ -130,7 +834,7 @@ export class DataService {
   // 导出数据
   static async exportData(): Promise<string | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/export`);
+      const response = await apiFetch(`/export`);
       if (!response.ok) {
         throw new Error('Failed to export data');
       }
@@ -141,20 +845,314 @@ export class DataService {
     }
   }
 
-  // 导入数据
-  static async importData(data: string): Promise<boolean> {
+  // 导出为 Markdown 归档或静态网页压缩包，可按日期范围和心情筛选，日期按浏览器的时区显示。
+  // 启用加密时服务器无法读取日记内容，由浏览器解密后一并发送
+  static async exportArchive(format: ArchiveFormat, filter: Pick<EntryFilter, 'from' | 'to' | 'moods'>): Promise<Blob | null> {
     try {
-      const response = await fetch(`${API_BASE_URL}/import`, {
+      const entries = getSessionKey() ? await DataService.getEntries() : undefined;
+      const response = await apiFetch(`/export/archive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          format,
+          ...filter,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          entries
+        }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to export archive');
+      }
+      return await response.blob();
+    } catch (error) {
+      console.error('Error exporting archive:', error);
+      return null;
+    }
+  }
+
+  // 预览导入：校验文件并与现有数据比较，不做任何修改。strategy 决定按导入后的哪个心情刻度检查心情
+  static async previewImport(data: string, strategy: ImportStrategy): Promise<ImportPreview | null> {
+    try {
+      const response = await apiFetch(`/import/preview?strategy=${strategy}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: data,
       });
+      if (!response.ok) {
+        throw new Error('Failed to preview import');
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      return null;
+    }
+  }
+
+  // 导入数据。启用加密时先加密导入文件中的明文日记
+  static async importData(data: string, strategy: ImportStrategy = 'replace'): Promise<boolean> {
+    try {
+      let body = data;
+      const parsed = JSON.parse(data);
+      if (getSessionKey() && Array.isArray(parsed?.entries)) {
+        parsed.entries = await Promise.all(parsed.entries.map(async (entry: Entry) => (
+          typeof entry?.content === 'string' && !isEncrypted(entry.content)
+            ? { ...entry, content: await encryptContent(entry.content) }
+            : entry
+        )));
+        body = JSON.stringify(parsed);
+      }
+      const response = await apiFetch(`/import?strategy=${strategy}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body,
+      });
       return response.ok;
     } catch (error) {
       console.error('Error importing data:', error);
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  // 启用、更换或关闭加密：读取全部日记、历史版本和回收站，用当前密钥解密后以新密钥重新加密再整体保存。
+  // encryption 和 key 为 null 表示关闭加密。需要在线且没有未同步的修改
+  static async changeEncryption(encryption: EncryptionConfig | null, key: CryptoKey | null): Promise<EncryptionChangeResult> {
+    if (DataService.syncState.status !== 'online' || DataService.syncState.pendingCount > 0) {
+      return 'failed';
+    }
+    try {
+      const response = await apiFetch(`/encryption/data`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch data for encryption');
+      }
+      const data: { entries: Entry[]; revisions: Record<string, EntryRevision[]>; trash: TrashedEntry[] } = await response.json();
+
+      const currentKey = getSessionKey();
+      // 先用当前密钥解密，再用新密钥加密；key 为 null 时保存为明文
+      const recrypt = async (content: string): Promise<string> => {
+        let plaintext = content;
+        if (isEncrypted(content)) {
+          if (!currentKey) {
+            throw new Error('Cannot decrypt content without the current key');
+          }
+          plaintext = await decryptText(currentKey, content);
+        }
+        return key ? encryptText(key, plaintext) : plaintext;
+      };
+      const recryptAll = <T extends { content: string }>(records: T[]) =>
+        Promise.all(records.map(async record => ({ ...record, content: await recrypt(record.content) })));
+
+      const entries = await recryptAll(data.entries);
+      const revisions: Record<string, EntryRevision[]> = {};
+      for (const [entryId, history] of Object.entries(data.revisions)) {
+        revisions[entryId] = await recryptAll(history);
+      }
+      const trash = await recryptAll(data.trash);
+
+      const saveResponse = await apiFetch(`/encryption/data`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ encryption, entries, revisions, trash }),
+      });
+      if (saveResponse.status === 409) {
+        return 'conflict';
+      }
+      if (!saveResponse.ok) {
+        throw new Error('Failed to save encrypted data');
+      }
+      setSessionKey(key);
+      await replaceCachedEntries(entries).catch(logCacheError);
+      return 'saved';
+    } catch (error) {
+      if (isNetworkError(error)) {
+        DataService.goOffline();
+      }
+      console.error('Error changing encryption:', error);
+      return 'failed';
+    }
+  }
+
+  // 获取数据文件状态（损坏或已从备份恢复的文件）
+  static async getDataIssues(): Promise<DataIssue[]> {
+    try {
+      const response = await apiFetch(`/status`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch data status');
+      }
+      const status: { ok: boolean; issues: DataIssue[] } = await response.json();
+      return status.issues;
+    } catch (error) {
+      console.error('Error fetching data status:', error);
+      return [];
+    }
+  }
+
+  // 确认已知晓数据恢复提示
+  static async acknowledgeDataIssues(): Promise<boolean> {
+    try {
+      const response = await apiFetch(`/status/acknowledge`, {
+        method: 'POST',
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error acknowledging data issues:', error);
+      return false;
+    }
+  }
+
+  // 将损坏的数据文件重置为空数据
+  static async resetDataFile(file: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`/recovery/reset`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ file }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error resetting data file:', error);
+      return false;
+    }
+  }
+
+  // 获取备份快照列表
+  static async getBackups(): Promise<BackupInfo[]> {
+    try {
+      const response = await apiFetch(`/backups`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch backups');
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching backups:', error);
+      return [];
+    }
+  }
+
+  // 立即创建备份快照
+  static async createBackup(): Promise<BackupInfo | null> {
+    try {
+      const response = await apiFetch(`/backups`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create backup');
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      return null;
+    }
+  }
+
+  // 下载备份快照（与导出数据格式相同）
+  static async downloadBackup(id: string): Promise<string | null> {
+    try {
+      const response = await apiFetch(`/backups/${encodeURIComponent(id)}/download`);
+      if (!response.ok) {
+        throw new Error('Failed to download backup');
+      }
+      return await response.text();
+    } catch (error) {
+      console.error('Error downloading backup:', error);
+      return null;
+    }
+  }
+
+  // 从备份快照恢复数据
+  static async restoreBackup(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`/backups/${encodeURIComponent(id)}/restore`, {
+        method: 'POST',
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      return false;
+    }
+  }
+
+  // 查询服务器上是否已有账户；服务器无法连接时返回 null
+  static async getAuthStatus(): Promise<{ hasUsers: boolean } | null> {
+    try {
+      const response = await apiFetch('/auth/status');
+      if (!response.ok) {
+        throw new Error('Failed to fetch auth status');
+      }
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching auth status:', error);
+      return null;
+    }
+  }
+
+  // 登录成功后保存会话
+  static async login(username: string, password: string): Promise<AuthResult> {
+    try {
+      const response = await apiFetch('/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      if (response.status === 400 || response.status === 401) {
+        return { status: 'invalid' };
+      }
+      if (!response.ok) {
+        throw new Error('Failed to log in');
+      }
+      const { token, user }: { token: string; user: AuthUser } = await response.json();
+      setSession({ token, user });
+      return { status: 'success', user };
+    } catch (error) {
+      console.error('Error logging in:', error);
+      return { status: 'failed' };
+    }
+  }
+
+  // 创建账户，不会切换当前登录的用户。第一个账户无需登录即可创建，之后需要已登录
+  static async register(username: string, password: string): Promise<AuthResult> {
+    try {
+      const response = await apiFetch('/auth/register', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      if (response.status === 400) {
+        return { status: 'invalid' };
+      }
+      if (response.status === 409) {
+        return { status: 'taken' };
+      }
+      if (!response.ok) {
+        throw new Error('Failed to register');
+      }
+      return { status: 'success', user: await response.json() };
+    } catch (error) {
+      console.error('Error registering:', error);
+      return { status: 'failed' };
+    }
+  }
+
+  // 退出登录；即使服务器无法连接也清除本地会话
+  static async logout(): Promise<void> {
+    try {
+      await apiFetch('/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+    clearSession();
+  }
+}
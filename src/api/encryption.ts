@@ -0,0 +1,122 @@
+// 日记加密 - 用口令通过 PBKDF2 派生 AES-GCM 密钥，在浏览器中加密日记内容，服务器只保存密文。
+// 密钥只保存在内存中，锁定或刷新页面后需要重新输入口令
+import { EncryptionConfig } from '../types';
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// 密文格式：enc:v1:<base64 IV>:<base64 密文>
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+// 用密钥加密这段固定文本作为校验值，解锁时能解密出相同文本即说明口令正确
+const VERIFIER_TEXT = 'daily-life-recorder';
+
+// 锁定状态下或解密失败时代替日记内容显示的文字
+export const UNREADABLE_CONTENT = '🔒 无法解密这篇日记';
+
+let sessionKey: CryptoKey | null = null;
+const listeners = new Set<(unlocked: boolean) => void>();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // 分段转换，避免参数过多导致调用栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function isEncrypted(text: string): boolean {
+  return text.startsWith(CIPHERTEXT_PREFIX);
+}
+
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return `${CIPHERTEXT_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+// 密钥不对或密文被篡改时抛出异常
+export async function decryptText(key: CryptoKey, text: string): Promise<string> {
+  const [iv, ciphertext] = text.slice(CIPHERTEXT_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+// 为新口令生成随机盐和校验值
+export async function createEncryptionConfig(passphrase: string): Promise<{ config: EncryptionConfig; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    config: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, verifier: await encryptText(key, VERIFIER_TEXT) },
+    key
+  };
+}
+
+// 口令正确时返回派生的密钥，否则返回 null
+export async function verifyPassphrase(passphrase: string, config: EncryptionConfig): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    return await decryptText(key, config.verifier) === VERIFIER_TEXT ? key : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// ===== 会话密钥 =====
+
+export function getSessionKey(): CryptoKey | null {
+  return sessionKey;
+}
+
+export function setSessionKey(key: CryptoKey | null) {
+  sessionKey = key;
+  listeners.forEach(listener => listener(key !== null));
+}
+
+export function lockSession() {
+  setSessionKey(null);
+}
+
+// 订阅解锁状态的变化，返回取消订阅的函数
+export function subscribeToLock(listener: (unlocked: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// 已解锁时加密内容，未启用加密时原样返回
+export async function encryptContent(content: string): Promise<string> {
+  return sessionKey ? encryptText(sessionKey, content) : content;
+}
+
+// 解密日记、历史版本等带有 content 的记录，明文内容原样返回
+export async function decryptRecord<T extends { content: string }>(record: T): Promise<T> {
+  if (!isEncrypted(record.content)) {
+    return record;
+  }
+  if (!sessionKey) {
+    return { ...record, content: UNREADABLE_CONTENT };
+  }
+  try {
+    return { ...record, content: await decryptText(sessionKey, record.content) };
+  } catch (error) {
+    console.error('Error decrypting content:', error);
+    return { ...record, content: UNREADABLE_CONTENT };
+  }
+}
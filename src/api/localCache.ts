@@ -0,0 +1,172 @@
+// 本地缓存 - 使用 IndexedDB 保存日记和设置的副本，以及离线时待同步的操作。
+// 每个账户使用单独的数据库，切换账户后不会读到其他人的缓存
+import { Entry, EntryFilter, EntryPage, EntryStats, SearchResult, Settings } from '../types';
+import { getSession } from './session';
+import { matchesEntryFilter, paginateEntries, searchEntryList } from '../utils/entryQuery';
+import { summarizeEntries } from '../utils/entryStats';
+
+const DB_NAME = 'daily-life-recorder';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const OUTBOX_STORE = 'outbox';
+
+// 离线时记录的写操作，恢复连接后按顺序重放
+export type OutboxOperation =
+  | { type: 'addEntry'; entry: Entry }
+  | { type: 'updateEntry'; id: string; updates: Partial<Entry> }
+  | { type: 'deleteEntry'; id: string }
+  | { type: 'saveSettings'; settings: Settings };
+
+export interface OutboxItem {
+  seq: number;
+  operation: OutboxOperation;
+  queuedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let openedName: string | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  const name = `${DB_NAME}-${getSession()?.user.id ?? 'guest'}`;
+  if (dbPromise && openedName !== name) {
+    // 账户已切换，关闭上一个账户的数据库
+    dbPromise.then(db => db.close(), () => {});
+    dbPromise = null;
+  }
+  if (!dbPromise) {
+    openedName = name;
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        db.createObjectStore(META_STORE);
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// 在一个事务中执行操作，事务提交后返回最后一个请求的结果
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getCachedEntries(): Promise<Entry[]> {
+  const entries = await withStore<Entry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+// 离线时从本地副本分页查询，参数和结果与服务器的 /api/entries 分页相同
+export async function queryCachedEntries(filter: EntryFilter, cursor: string | null, limit: number): Promise<EntryPage> {
+  const entries = await withStore<Entry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return paginateEntries(entries, filter, cursor, limit);
+}
+
+// 离线时在本地副本中搜索，结果按日期倒序
+export async function searchCachedEntries(q: string, filter: EntryFilter, offset: number, limit: number): Promise<SearchResult> {
+  const entries = await withStore<Entry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return searchEntryList(entries, q, filter, offset, limit);
+}
+
+// 离线时在本地副本中统计，结果与服务器的 /api/stats 相同。只用到不加密的字段，无需解密
+export async function summarizeCachedEntries(filter: EntryFilter): Promise<EntryStats> {
+  const entries = await withStore<Entry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+  return summarizeEntries(entries.filter(entry => matchesEntryFilter(entry, filter)));
+}
+
+// 用服务器返回的完整列表替换缓存
+export function replaceCachedEntries(entries: Entry[]): Promise<void> {
+  return withStore(ENTRIES_STORE, 'readwrite', store => {
+    store.clear();
+    entries.forEach(entry => store.put(entry));
+  });
+}
+
+export function putCachedEntry(entry: Entry): Promise<void> {
+  return withStore(ENTRIES_STORE, 'readwrite', store => store.put(entry));
+}
+
+export async function updateCachedEntry(id: string, updates: Partial<Entry>): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, ...updates, id });
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// 离线创建的日记同步后由服务器分配正式 id：替换缓存中的记录，并更新队列中引用旧 id 的操作
+export async function remapCachedEntry(localId: string, entry: Entry): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ENTRIES_STORE, OUTBOX_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).delete(localId);
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    const cursorRequest = transaction.objectStore(OUTBOX_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        return;
+      }
+      const item: OutboxItem = cursor.value;
+      if ((item.operation.type === 'updateEntry' || item.operation.type === 'deleteEntry') && item.operation.id === localId) {
+        cursor.update({ ...item, operation: { ...item.operation, id: entry.id } });
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export function deleteCachedEntry(id: string): Promise<void> {
+  return withStore(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+}
+
+export async function getCachedSettings(): Promise<Settings | null> {
+  const settings = await withStore<Settings | undefined>(META_STORE, 'readonly', store => store.get('settings'));
+  return settings ?? null;
+}
+
+export function putCachedSettings(settings: Settings): Promise<void> {
+  return withStore(META_STORE, 'readwrite', store => store.put(settings, 'settings'));
+}
+
+export function enqueueOperation(operation: OutboxOperation): Promise<void> {
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.add({ operation, queuedAt: new Date().toISOString() }));
+}
+
+// 按入队顺序返回所有待同步的操作
+export function getOutbox(): Promise<OutboxItem[]> {
+  return withStore<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+}
+
+export function removeOutboxItem(seq: number): Promise<void> {
+  return withStore(OUTBOX_STORE, 'readwrite', store => store.delete(seq));
+}
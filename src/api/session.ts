@@ -0,0 +1,48 @@
+// 登录会话 - 保存登录后服务器发放的令牌和用户信息。
+// 会话保存在 localStorage 中，刷新页面后仍保持登录；服务器返回 401 时由 DataService 清除
+import { AuthSession } from '../types';
+
+const STORAGE_KEY = 'daily-life-recorder-session';
+
+let session: AuthSession | null = readStoredSession();
+const listeners = new Set<(session: AuthSession | null) => void>();
+
+function readStoredSession(): AuthSession | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return null;
+  }
+}
+
+export function getSession(): AuthSession | null {
+  return session;
+}
+
+export function setSession(next: AuthSession | null) {
+  session = next;
+  try {
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+  listeners.forEach(listener => listener(next));
+}
+
+export function clearSession() {
+  setSession(null);
+}
+
+// 订阅登录状态的变化，返回取消订阅的函数
+export function subscribeToSession(listener: (session: AuthSession | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,8 +1,15 @@
 import React, { useState, useEffect, createContext, useContext, useRef } from 'react';
-import { Calendar, Edit3, Home, BarChart3, Settings, Plus, X, Save, Download, Upload, Moon, Sun, User, Trash2, Camera, ChevronLeft, ChevronRight, Eye, Code } from 'lucide-react';
+import { Calendar, Edit3, Home, BarChart3, Settings, Plus, X, Save, Download, Upload, Moon, Sun, User, Trash2, Camera, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Eye, Code, History, Wifi, WifiOff, RefreshCw, Lock, LogOut, Mic, Square, Play, Tag } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
-import { Entry, Settings as SettingsType, AppContextType } from './types';
+import { AuthSession, EncryptionConfig, EntriesChange, Entry, EntryChange, EntryFilter, EntryPage, EntryStats, EntryUpdate, SavedSearch, SearchSnippet, Settings as SettingsType, AppContextType, DataIssue, BackupInfo, BackupRetention, EntryRevision, TrashedEntry, SyncState, UpdateEntryResult, ImportPreview, ImportStrategy, ArchiveFormat, Attachment, MoodOption, EntryEmotion } from './types';
 import { DataService } from './api/dataService';
+import { createEncryptionConfig, getSessionKey, lockSession, setSessionKey, subscribeToLock, verifyPassphrase } from './api/encryption';
+import { getSession, subscribeToSession } from './api/session';
+import { diffLines } from './utils/lineDiff';
+import { compareEntries, matchesEntryFilter } from './utils/entryQuery';
+import { parseSearchQuery } from './utils/searchQuery';
+import { extractHashtags, mergeTags, normalizeTag } from './utils/hashtags';
+import { DEFAULT_EMOTION_INTENSITY, EMOTION_WHEEL, MAX_EMOTION_INTENSITY, emotionColor } from './utils/emotionWheel';
 
 
 
@@ -27,49 +34,141 @@ const defaultSettings: SettingsType = {
     heroTitle: '你的生活，你的故事',
     heroSubtitle: '记录美好时刻，追踪心情变化，反思人生旅程',
     startButtonText: '开始写作'
-  }
+  },
+  backupRetention: {
+    daily: 7,
+    weekly: 4,
+    monthly: 6
+  },
+  trashRetentionDays: 30,
+  savedSearches: [],
+  moodScale: [
+    { value: 'amazing', label: '超棒', emoji: '🤩', color: '#10B981', score: 5 },
+    { value: 'happy', label: '开心', emoji: '😊', color: '#F59E0B', score: 4 },
+    { value: 'neutral', label: '平静', emoji: '😐', color: '#6B7280', score: 3 },
+    { value: 'sad', label: '难过', emoji: '😢', color: '#3B82F6', score: 2 },
+    { value: 'awful', label: '糟糕', emoji: '😰', color: '#EF4444', score: 1 }
+  ],
+  encryption: null,
+  autoLockMinutes: 15
 };
 
-const moodOptions = [
-  { value: 'amazing', label: 'Amazing', color: '#10B981', emoji: '🤩' },
-  { value: 'happy', label: 'Happy', color: '#F59E0B', emoji: '😊' },
-  { value: 'neutral', label: 'Neutral', color: '#6B7280', emoji: '😐' },
-  { value: 'sad', label: 'Sad', color: '#3B82F6', emoji: '😢' },
-  { value: 'awful', label: 'Awful', color: '#EF4444', emoji: '😰' }
-];
+const backupReasonLabels: Record<BackupInfo['reason'], string> = {
+  scheduled: '定时备份',
+  manual: '手动备份',
+  'pre-save': '批量保存前',
+  'pre-import': '导入前',
+  'pre-restore': '恢复前',
+  'pre-migration': '数据升级前',
+  'pre-tags': '修改标签前',
+  'pre-moods': '修改心情刻度前',
+  encryption: '加密设置变更'
+};
+
+// 设置中的心情刻度；本地缓存的旧设置可能还没有 moodScale，此时使用默认刻度
+const useMoodScale = (): MoodOption[] => {
+  const { settings } = useApp();
+  return settings.moodScale?.length ? settings.moodScale : defaultSettings.moodScale;
+};
+
+// 在心情刻度中查找心情，刻度中没有的心情（例如导入的日记）用灰色显示原值
+const findMood = (moodScale: MoodOption[], value: string): MoodOption => (
+  moodScale.find(mood => mood.value === value) ?? { value, label: value, emoji: '📝', color: '#9CA3AF', score: 0 }
+);
+
+// 新日记的默认心情：刻度中间的心情
+const defaultMood = (moodScale: MoodOption[]) => moodScale[Math.floor((moodScale.length - 1) / 2)].value;
+
+// 满足条件的日记的统计，由服务器计算，日记变化后重新读取。读取完成前为 null
+const useEntryStats = (filter: EntryFilter = {}): EntryStats | null => {
+  const { entriesChange } = useApp();
+  const [stats, setStats] = useState<EntryStats | null>(null);
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => {
+    let cancelled = false;
+    DataService.getStats(filter).then(result => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey, entriesChange.version]);
+
+  return stats;
+};
+
+// 满足条件的全部日记，只用于范围有限的查询（例如日历中的一个月），日记变化后重新读取。读取完成前为 null
+const useEntryQuery = (filter: EntryFilter): Entry[] | null => {
+  const { entriesChange } = useApp();
+  const [entries, setEntries] = useState<Entry[] | null>(null);
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => {
+    let cancelled = false;
+    DataService.queryEntries(filter).then(result => {
+      if (!cancelled) setEntries(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey, entriesChange.version]);
+
+  return entries;
+};
+
+// 最新的 limit 篇日记，日记变化后重新读取。读取完成前为 null
+const useRecentEntries = (limit: number): Entry[] | null => {
+  const { entriesChange } = useApp();
+  const [entries, setEntries] = useState<Entry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    DataService.getEntriesPage({}, null, limit).then(page => {
+      if (!cancelled) setEntries(page.entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [limit, entriesChange.version]);
+
+  return entries;
+};
 
 interface AppProviderProps {
   children: React.ReactNode;
 }
 
 const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
-  const [entries, setEntries] = useState<Entry[]>([]);
+  // 这里不保存日记：各页面只读取需要的部分（分页列表、日历中的一个月、服务器计算的统计），
+  // 日记变化时通过 entriesChange 通知它们更新
+  const [entriesChange, setEntriesChange] = useState<EntriesChange>({ version: 0, update: null });
   const [settings, setSettings] = useState<SettingsType>(defaultSettings);
   const [currentPage, setCurrentPage] = useState('home');
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [showModal, setShowModal] = useState<string | null>(null);
   const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [dataIssues, setDataIssues] = useState<DataIssue[]>([]);
+  const [syncState, setSyncState] = useState<SyncState>({ status: 'online', pendingCount: 0 });
+  const previousSyncStatus = useRef<SyncState['status']>('online');
 
   // Load data from server on mount
   const loadData = async () => {
     setIsLoading(true);
     try {
-      const [entriesData, settingsData]: [Entry[], SettingsType] = await Promise.all([
-        DataService.getEntries(),
-        DataService.getSettings()
+      await DataService.checkConnection();
+      const [settingsData, issues]: [SettingsType, DataIssue[]] = await Promise.all([
+        DataService.getSettings(),
+        DataService.getDataIssues()
       ]);
-      
-      setEntries(entriesData);
-      // 确保向后兼容，合并默认设置
-      setSettings({
-        ...defaultSettings,
-        ...settingsData,
-        customTexts: {
-          ...defaultSettings.customTexts,
-          ...settingsData.customTexts
-        }
-      });
+      // 本地副本供离线时读取，在后台更新
+      DataService.refreshCache();
+
+      setDataIssues(issues);
+      notifyEntriesChanged(null);
+      // 旧版本设置中缺少的字段已由服务器的数据迁移补全
+      setSettings(settingsData);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -77,10 +176,68 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
+  const notifyEntriesChanged = (update: EntryUpdate | null) => {
+    setEntriesChange(prev => ({ version: prev.version + 1, update }));
+  };
+
   useEffect(() => {
     loadData();
   }, []);
 
+  // 跟踪连接状态；离线修改全部同步完成后重新加载服务器上的数据
+  useEffect(() => {
+    const unsubscribe = DataService.subscribe(state => {
+      if (previousSyncStatus.current === 'syncing' && state.status === 'online' && state.pendingCount === 0) {
+        loadData();
+      }
+      previousSyncStatus.current = state.status;
+      setSyncState(state);
+    });
+    const handleOnline = () => {
+      DataService.checkConnection();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  // 日记在服务器以外被修改时（例如编辑了 Markdown 文件）通知各页面，连续的变化合并为一次。
+  // 只有一篇日记变化时只读取这一篇，多篇同时变化时由各页面重新读取
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const changes = new Map<string, EntryChange>();
+    const unsubscribe = DataService.subscribeToChanges(change => {
+      changes.set(change.id, change);
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(async () => {
+        const [change, ...others] = [...changes.values()];
+        changes.clear();
+        if (others.length === 0 && change.type === 'delete') {
+          DataService.refreshCache();
+          notifyEntriesChanged({ type: 'delete', id: change.id });
+          return;
+        }
+        const entry = others.length === 0 ? await DataService.getEntry(change.id) : null;
+        if (entry) {
+          notifyEntriesChanged({ type: 'put', entry });
+        } else {
+          await DataService.refreshCache();
+          notifyEntriesChanged(null);
+        }
+      }, 500);
+    });
+    return () => {
+      unsubscribe();
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+    };
+  }, []);
+
   // Save settings to server whenever settings change
   useEffect(() => {
     if (settings !== defaultSettings) {
@@ -88,12 +245,31 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, [settings]);
 
+  // 启用加密时，无操作超过设定的时间后自动锁定
+  useEffect(() => {
+    const minutes = settings.autoLockMinutes ?? defaultSettings.autoLockMinutes;
+    if (!settings.encryption || minutes <= 0) {
+      return;
+    }
+    const activityEvents = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'];
+    let timer = setTimeout(lockSession, minutes * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockSession, minutes * 60 * 1000);
+    };
+    activityEvents.forEach(event => window.addEventListener(event, resetTimer, true));
+    return () => {
+      clearTimeout(timer);
+      activityEvents.forEach(event => window.removeEventListener(event, resetTimer, true));
+    };
+  }, [settings.encryption, settings.autoLockMinutes]);
+
   const addEntry = async (entry: Partial<Entry>) => {
     setIsLoading(true);
     try {
       const newEntry = await DataService.addEntry(entry);
       if (newEntry) {
-        setEntries(prev => [newEntry, ...prev]);
+        notifyEntriesChanged({ type: 'put', entry: newEntry });
       }
     } catch (error) {
       console.error('Error adding entry:', error);
@@ -103,35 +279,37 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
-  const updateEntry = async (id: string, updates: Partial<Entry>) => {
+  // 冲突时不弹窗，由调用方（EntryModal）展示冲突处理界面
+  const updateEntry = async (id: string, updates: Partial<Entry>, expectedRevision?: number): Promise<UpdateEntryResult> => {
     setIsLoading(true);
     try {
-      const success = await DataService.updateEntry(id, updates);
-      if (success) {
-        setEntries(prev => prev.map(entry => 
-          entry.id === id ? { ...entry, ...updates } : entry
-        ));
+      const result = await DataService.updateEntry(id, updates, expectedRevision);
+      if (result.status === 'saved') {
+        notifyEntriesChanged({ type: 'put', entry: result.entry });
+      } else if (result.status === 'queued') {
+        notifyEntriesChanged({ type: 'patch', id, updates });
+      } else if (result.status === 'conflict') {
+        notifyEntriesChanged({ type: 'put', entry: result.current });
       } else {
         alert('更新记录失败，请重试');
       }
+      return result;
     } catch (error) {
       console.error('Error updating entry:', error);
       alert('更新记录失败，请重试');
+      return { status: 'failed' };
     } finally {
       setIsLoading(false);
     }
   };
 
+  // 删除的记录会移入回收站，可随时恢复，因此无需确认
   const deleteEntry = async (id: string) => {
-    if (!confirm('确定要删除这条记录吗？')) {
-      return;
-    }
-    
     setIsLoading(true);
     try {
       const success = await DataService.deleteEntry(id);
       if (success) {
-        setEntries(prev => prev.filter(entry => entry.id !== id));
+        notifyEntriesChanged({ type: 'delete', id });
       } else {
         alert('删除记录失败，请重试');
       }
@@ -143,6 +321,16 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
+  const restoreEntry = async (id: string) => {
+    const restored = await DataService.restoreEntry(id);
+    if (!restored) {
+      alert('恢复记录失败，请重试');
+      return false;
+    }
+    notifyEntriesChanged({ type: 'put', entry: restored });
+    return true;
+  };
+
   const exportData = async () => {
     try {
       const data = await DataService.exportData();
@@ -163,39 +351,45 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
-  const importData = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const result = e.target?.result;
-          if (typeof result === 'string') {
-            const success = await DataService.importData(result);
-            if (success) {
-              await loadData(); // 重新加载数据
-              alert('数据导入成功！');
-            } else {
-              alert('导入数据失败，请检查文件格式');
-            }
-          }
-        } catch (error) {
-          console.error('Error importing data:', error);
-          alert('导入数据失败，请检查文件格式');
-        }
-      };
-      reader.readAsText(file);
+  const importData = async (data: string, strategy: ImportStrategy) => {
+    const success = await DataService.importData(data, strategy);
+    if (success) {
+      await loadData(); // 重新加载数据
+      alert('数据导入成功！');
+    } else {
+      alert('导入数据失败，请检查文件格式');
+    }
+    return success;
+  };
+
+  const resetDataFile = async (file: string) => {
+    if (!confirm(`确定要将 ${file} 重置为空数据吗？损坏的文件仍会保留在隔离目录中。`)) {
+      return;
+    }
+
+    const success = await DataService.resetDataFile(file);
+    if (success) {
+      await loadData();
+    } else {
+      alert('重置数据失败，请重试');
     }
   };
 
+  const dismissDataIssues = async () => {
+    await DataService.acknowledgeDataIssues();
+    setDataIssues(prev => prev.filter(issue => issue.status !== 'recovered'));
+  };
+
   const value: AppContextType = {
-    entries,
+    entriesChange,
     settings,
     currentPage,
     selectedDate,
     showModal,
     editingEntry,
     isLoading,
+    dataIssues,
+    syncState,
     setCurrentPage,
     setSelectedDate,
     setShowModal,
@@ -203,10 +397,13 @@ const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     addEntry,
     updateEntry,
     deleteEntry,
+    restoreEntry,
     exportData,
     importData,
     setSettings,
-    loadData
+    loadData,
+    resetDataFile,
+    dismissDataIssues
   };
 
   return (
@@ -223,16 +420,88 @@ const LoadingSpinner = () => (
   </div>
 );
 
+// Data Issue Banner Component - 提示数据文件损坏或已从备份恢复
+const DataIssueBanner = () => {
+  const { dataIssues, setCurrentPage, resetDataFile, dismissDataIssues } = useApp();
+  const corrupted = dataIssues.filter(issue => issue.status === 'corrupted');
+  const recovered = dataIssues.filter(issue => issue.status === 'recovered');
+
+  if (dataIssues.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      {corrupted.map(issue => (
+        <div key={issue.file} className="rounded-2xl border border-red-300 bg-red-50 p-4 text-red-800">
+          <p className="font-semibold">{issue.message}</p>
+          <p className="text-sm mt-1">
+            损坏的文件已保存到 <code className="font-mono">{issue.quarantinedAs}</code>。
+            你可以从备份文件导入数据，或将其重置为空数据。
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => setCurrentPage('settings')}
+              className="bg-red-600 text-white px-3 py-1 rounded-lg text-sm hover:bg-red-700 transition-colors"
+            >
+              导入备份
+            </button>
+            <button
+              onClick={() => resetDataFile(issue.file)}
+              className="border border-red-300 px-3 py-1 rounded-lg text-sm hover:bg-red-100 transition-colors"
+            >
+              重置为空数据
+            </button>
+          </div>
+        </div>
+      ))}
+      {recovered.length > 0 && (
+        <div className="rounded-2xl border border-amber-300 bg-amber-50 p-4 text-amber-800 flex items-start justify-between gap-4">
+          <div>
+            {recovered.map(issue => (
+              <p key={issue.file} className="text-sm">
+                {issue.message}，损坏的文件已保存到 <code className="font-mono">{issue.quarantinedAs}</code>
+              </p>
+            ))}
+          </div>
+          <button onClick={dismissDataIssues} className="p-1 rounded hover:bg-amber-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Data Unavailable Component - 日记数据文件损坏时代替"暂无记录"显示
+const DataUnavailableState = () => {
+  const { settings } = useApp();
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
+      <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        日记数据暂时无法读取
+      </h3>
+      <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        数据文件已损坏，请根据页面顶部的提示恢复数据
+      </p>
+    </div>
+  );
+};
+
+const isEntriesFileCorrupted = (dataIssues: DataIssue[]) =>
+  dataIssues.some(issue => issue.file === 'entries.json' && issue.status === 'corrupted');
+
 // Navigation Component
 const Navigation = () => {
   const { currentPage, setCurrentPage, settings } = useApp();
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const user = getSession()?.user;
 
   const navItems = [
     { id: 'home', label: '主页', icon: Home },
     { id: 'journal', label: '日记', icon: Edit3 },
     { id: 'calendar', label: '日历', icon: Calendar },
     { id: 'mood', label: '心情追踪', icon: BarChart3 },
+    { id: 'trash', label: '回收站', icon: Trash2 },
     { id: 'settings', label: '设置', icon: Settings }
   ];
 
@@ -274,10 +543,51 @@ const Navigation = () => {
           );
         })}
       </div>
+
+      {user && (
+        <div className={`flex items-center gap-3 px-6 py-4 border-t ${settings.theme === 'dark' ? 'border-gray-700 text-gray-300' : 'border-gray-200 text-gray-700'}`}>
+          <User className="w-5 h-5 shrink-0" />
+          {!isCollapsed && <span className="flex-1 truncate font-medium">{user.username}</span>}
+          <button
+            onClick={() => DataService.logout()}
+            title="退出登录"
+            className={`p-1 rounded-lg transition-colors ${settings.theme === 'dark' ? 'hover:bg-gray-700 hover:text-white' : 'hover:bg-gray-100 hover:text-gray-900'}`}
+          >
+            <LogOut className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </nav>
   );
 };
 
+// Sync Status Indicator Component - 显示在线、离线或同步中
+const SyncStatusIndicator = () => {
+  const { syncState, settings } = useApp();
+
+  const statusConfig = {
+    online: { icon: Wifi, label: '已连接', className: 'text-emerald-500' },
+    offline: { icon: WifiOff, label: '离线', className: 'text-amber-500' },
+    syncing: { icon: RefreshCw, label: '同步中', className: 'text-purple-500' }
+  }[syncState.status];
+  const Icon = statusConfig.icon;
+
+  return (
+    <div
+      className={`flex items-center gap-2 text-sm ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}
+      title={syncState.status === 'offline' ? '服务器无法连接，修改会保存在本地并在恢复连接后同步' : undefined}
+    >
+      <Icon className={`w-4 h-4 ${statusConfig.className} ${syncState.status === 'syncing' ? 'animate-spin' : ''}`} />
+      <span>{statusConfig.label}</span>
+      {syncState.pendingCount > 0 && (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+          {syncState.pendingCount} 项待同步
+        </span>
+      )}
+    </div>
+  );
+};
+
 // Header Component
 const Header = () => {
   const { settings, setSettings, setShowModal, isLoading } = useApp();
@@ -304,6 +614,20 @@ const Header = () => {
       </div>
       
       <div className="flex items-center gap-4">
+        <SyncStatusIndicator />
+        {settings.encryption && (
+          <button
+            onClick={lockSession}
+            title="锁定"
+            className={`p-2 rounded-full transition-colors ${
+              settings.theme === 'dark'
+                ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            <Lock className="w-5 h-5" />
+          </button>
+        )}
         <button
           onClick={toggleTheme}
           className={`p-2 rounded-full transition-colors ${
@@ -331,27 +655,488 @@ const Header = () => {
 // Entry Card Component
 interface EntryCardProps {
   entry: Entry;
+  snippet?: SearchSnippet;  // 搜索结果的摘要，提供时代替全文显示
   onEdit: (entry: Entry) => void;
   onDelete: (id: string) => void;
+  onTagClick?: (tag: string) => void;  // 提供时标签可以点击，用于按标签筛选
 }
 
-const EntryCard: React.FC<EntryCardProps> = ({ entry, onEdit, onDelete }) => {
+// 显示搜索摘要，并高亮其中匹配的部分
+const HighlightedSnippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+  return <p className="leading-relaxed">{parts}</p>;
+};
+
+// 附件图片：通过 DataService 读取（请求需要登录令牌），加载完成前显示占位色块
+const AttachmentImage = ({ attachment, variant, className }: {
+  attachment: Attachment;
+  variant: 'original' | 'thumbnail';
+  className?: string;
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setFailed(false);
+    DataService.getAttachmentUrl(attachment.id, variant).then(result => {
+      if (cancelled) return;
+      setUrl(result);
+      setFailed(result === null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id, variant]);
+
+  if (!url) {
+    return (
+      <div className={`${className ?? ''} flex items-center justify-center bg-gray-200 text-gray-400`} title={attachment.name}>
+        {failed ? <Camera className="w-5 h-5" /> : null}
+      </div>
+    );
+  }
+  return <img src={url} alt={attachment.name} className={className} />;
+};
+
+// 照片大图浏览：左右方向键切换，Esc 关闭
+const PhotoLightbox = ({ attachments, index, onIndexChange, onClose }: {
+  attachments: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) => {
+  const attachment = attachments[index];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && index > 0) onIndexChange(index - 1);
+      if (e.key === 'ArrowRight' && index < attachments.length - 1) onIndexChange(index + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [attachments.length, index, onClose, onIndexChange]);
+
+  if (!attachment) return null;
+
+  const navButtonClass = 'absolute top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors';
+  return (
+    <div className="fixed inset-0 bg-black/90 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <button
+        type="button"
+        onClick={onClose}
+        className="absolute top-4 right-4 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+      >
+        <X className="w-5 h-5" />
+      </button>
+      {index > 0 && (
+        <button type="button" onClick={(e) => { e.stopPropagation(); onIndexChange(index - 1); }} className={`${navButtonClass} left-4`}>
+          <ChevronLeft className="w-6 h-6" />
+        </button>
+      )}
+      <div onClick={(e) => e.stopPropagation()} className="flex flex-col items-center gap-3">
+        <AttachmentImage attachment={attachment} variant="original" className="max-w-[90vw] max-h-[80vh] min-w-[8rem] min-h-[8rem] object-contain rounded-lg" />
+        <p className="text-sm text-gray-300">
+          {attachment.name} · {index + 1} / {attachments.length}
+        </p>
+      </div>
+      {index < attachments.length - 1 && (
+        <button type="button" onClick={(e) => { e.stopPropagation(); onIndexChange(index + 1); }} className={`${navButtonClass} right-4`}>
+          <ChevronRight className="w-6 h-6" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// 日记卡片中的照片缩略图，点击打开大图
+const PhotoStrip = ({ attachments }: { attachments: Attachment[] }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const photos = attachments.filter(attachment => attachment.kind === 'image');
+  if (photos.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex gap-2 overflow-x-auto mt-4 pb-1">
+        {photos.map((photo, index) => (
+          <button key={photo.id} type="button" onClick={() => setOpenIndex(index)} className="flex-shrink-0 rounded-lg overflow-hidden hover:opacity-90 transition-opacity">
+            <AttachmentImage attachment={photo} variant="thumbnail" className="w-20 h-20 object-cover" />
+          </button>
+        ))}
+      </div>
+      {openIndex !== null && (
+        <PhotoLightbox attachments={photos} index={openIndex} onIndexChange={setOpenIndex} onClose={() => setOpenIndex(null)} />
+      )}
+    </>
+  );
+};
+
+// 语音时长显示为 分:秒
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// 语音播放：点击后才下载语音文件，避免打开日记列表时加载全部语音
+const VoiceMemoPlayer = ({ attachment }: { attachment: Attachment }) => {
+  const { settings } = useApp();
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const handlePlay = async () => {
+    setIsLoading(true);
+    const result = await DataService.getAttachmentUrl(attachment.id);
+    setIsLoading(false);
+    setUrl(result);
+    setFailed(result === null);
+  };
+
+  const duration = attachment.duration !== undefined ? formatDuration(attachment.duration) : null;
+  if (url) {
+    return (
+      <div className="flex items-center gap-2">
+        <audio src={url} controls autoPlay className="h-10 max-w-full" />
+        {duration && <span className={`text-xs ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>{duration}</span>}
+      </div>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={handlePlay}
+      disabled={isLoading}
+      title={attachment.name}
+      className={`flex items-center gap-2 px-3 py-2 rounded-full text-sm transition-colors disabled:opacity-50 ${
+        settings.theme === 'dark'
+          ? 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {isLoading ? <LoadingSpinner /> : <Play className="w-4 h-4" />}
+      <span>🎙️ {duration ?? '语音'}</span>
+      {failed && <span className="text-red-500">加载失败</span>}
+    </button>
+  );
+};
+
+// 日记卡片中的语音列表
+const VoiceMemoList = ({ attachments }: { attachments: Attachment[] }) => {
+  const memos = attachments.filter(attachment => attachment.kind === 'audio');
+  if (memos.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-start gap-2 mt-4">
+      {memos.map(memo => <VoiceMemoPlayer key={memo.id} attachment={memo} />)}
+    </div>
+  );
+};
+
+// 录音时依次尝试的格式，浏览器支持的第一个会被使用（Safari 只支持 audio/mp4）
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+const RECORDING_EXTENSIONS: Record<string, string> = { 'audio/webm': '.webm', 'audio/ogg': '.ogg', 'audio/mp4': '.m4a' };
+// 单条语音的最长录音时间，到时自动停止
+const MAX_RECORDING_SECONDS = 15 * 60;
+
+// 录音按钮：使用 MediaRecorder 录音，停止后把录音和时长交给 onRecorded
+const VoiceRecorder = ({ onRecorded, disabled }: {
+  onRecorded: (file: File, duration: number) => void;
+  disabled?: boolean;
+}) => {
+  const { settings } = useApp();
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const startedAtRef = useRef(0);
+
+  // 关闭窗口时停止录音并释放麦克风，未完成的录音不保存
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = window.setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_SECONDS) {
+        recorderRef.current?.stop();
+      }
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [isRecording]);
+
+  const startRecording = async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      alert('当前浏览器不支持录音');
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error('Error accessing microphone:', error);
+      alert('无法使用麦克风，请检查浏览器的麦克风权限');
+      return;
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+      const duration = (Date.now() - startedAtRef.current) / 1000;
+      const type = (recorder.mimeType || mimeType || 'audio/webm').split(';')[0];
+      if (chunks.length === 0) return;
+      const name = `语音 ${new Date().toLocaleString('zh-CN', { hour12: false })}${RECORDING_EXTENSIONS[type] ?? ''}`;
+      onRecorded(new File(chunks, name, { type }), duration);
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    setIsRecording(true);
+    recorder.start();
+  };
+
+  if (isRecording) {
+    return (
+      <button
+        type="button"
+        onClick={() => recorderRef.current?.stop()}
+        className="flex items-center gap-2 px-3 py-1 rounded-lg text-sm bg-red-500 text-white hover:bg-red-600 transition-colors"
+      >
+        <Square className="w-4 h-4" />
+        停止 {formatDuration(elapsed)}
+      </button>
+    );
+  }
+  return (
+    <button
+      type="button"
+      onClick={startRecording}
+      disabled={disabled}
+      className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+        settings.theme === 'dark'
+          ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      <Mic className="w-4 h-4" />
+      录音
+    </button>
+  );
+};
+
+// 标签，提供 onClick 时显示为按钮；active 表示正在按这个标签筛选
+const TagChip = ({ tag, active, onClick, children }: {
+  tag: string;
+  active?: boolean;
+  onClick?: () => void;
+  children?: React.ReactNode;
+}) => {
+  const { settings } = useApp();
+  const className = `inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors ${
+    active
+      ? 'bg-purple-600 text-white'
+      : settings.theme === 'dark'
+        ? 'bg-purple-900/40 text-purple-300'
+        : 'bg-purple-100 text-purple-700'
+  }`;
+  if (!onClick) {
+    return <span className={className}>#{tag}{children}</span>;
+  }
+  return (
+    <button type="button" onClick={onClick} className={`${className} hover:opacity-80`}>
+      #{tag}{children}
+    </button>
+  );
+};
+
+// 情绪标签，颜色为情绪轮中所属基本情绪的颜色，强度用圆点表示
+const EmotionChip = ({ emotion, children }: { emotion: EntryEmotion; children?: React.ReactNode }) => {
+  const color = emotionColor(emotion.name);
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs"
+      style={{ backgroundColor: color + '26', color }}
+      title={`强度 ${emotion.intensity}/${MAX_EMOTION_INTENSITY}`}
+    >
+      {emotion.name}
+      <span aria-hidden>{'●'.repeat(emotion.intensity)}{'○'.repeat(MAX_EMOTION_INTENSITY - emotion.intensity)}</span>
+      {children}
+    </span>
+  );
+};
+
+// 情绪轮：内圈为八种基本情绪，外圈为对应的具体情绪，点击选中或取消
+const WHEEL_SIZE = 280;
+const WHEEL_RADII = { center: 34, inner: 78, outer: 136 };
+
+const wheelPoint = (radius: number, angle: number) => {
+  const center = WHEEL_SIZE / 2;
+  return `${(center + radius * Math.sin(angle)).toFixed(2)} ${(center - radius * Math.cos(angle)).toFixed(2)}`;
+};
+
+// 圆环上从 start 到 end 角度的扇形
+const wheelSector = (innerRadius: number, outerRadius: number, start: number, end: number) => [
+  `M ${wheelPoint(innerRadius, start)}`,
+  `L ${wheelPoint(outerRadius, start)}`,
+  `A ${outerRadius} ${outerRadius} 0 0 1 ${wheelPoint(outerRadius, end)}`,
+  `L ${wheelPoint(innerRadius, end)}`,
+  `A ${innerRadius} ${innerRadius} 0 0 0 ${wheelPoint(innerRadius, start)}`,
+  'Z'
+].join(' ');
+
+const EmotionWheel = ({ selected, onToggle, disabled }: {
+  selected: string[];
+  onToggle: (name: string) => void;
+  disabled?: boolean;
+}) => {
+  const { settings } = useApp();
+  const familyAngle = (2 * Math.PI) / EMOTION_WHEEL.length;
+
+  const segment = (name: string, color: string, innerRadius: number, outerRadius: number, start: number, end: number) => {
+    const isSelected = selected.includes(name);
+    const [x, y] = wheelPoint((innerRadius + outerRadius) / 2, (start + end) / 2).split(' ');
+    const toggle = () => {
+      if (!disabled) onToggle(name);
+    };
+    return (
+      <g
+        key={name}
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-pressed={isSelected}
+        onClick={toggle}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            toggle();
+          }
+        }}
+        className={disabled ? 'cursor-not-allowed' : 'cursor-pointer focus:outline-none'}
+      >
+        <title>{name}</title>
+        <path
+          d={wheelSector(innerRadius, outerRadius, start, end)}
+          fill={color}
+          fillOpacity={isSelected ? 1 : 0.3}
+          stroke={settings.theme === 'dark' ? '#1F2937' : '#FFFFFF'}
+          strokeWidth={2}
+        />
+        <text
+          x={x}
+          y={y}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontSize={12}
+          fontWeight={isSelected ? 700 : 400}
+          fill={isSelected ? '#111827' : settings.theme === 'dark' ? '#E5E7EB' : '#374151'}
+          pointerEvents="none"
+        >
+          {name}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`}
+      className={`w-full max-w-[280px] select-none ${disabled ? 'opacity-50' : ''}`}
+      role="group"
+      aria-label="情绪轮"
+    >
+      {EMOTION_WHEEL.map((family, index) => {
+        const start = index * familyAngle;
+        const emotionAngle = familyAngle / family.emotions.length;
+        return (
+          <g key={family.name}>
+            {segment(family.name, family.color, WHEEL_RADII.center, WHEEL_RADII.inner, start, start + familyAngle)}
+            {family.emotions.map((name, i) => segment(
+              name,
+              family.color,
+              WHEEL_RADII.inner,
+              WHEEL_RADII.outer,
+              start + i * emotionAngle,
+              start + (i + 1) * emotionAngle
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// 情绪强度选择：1 到 5 个圆点
+const IntensityPicker = ({ name, value, onChange, disabled }: {
+  name: string;
+  value: number;
+  onChange: (intensity: number) => void;
+  disabled?: boolean;
+}) => {
+  const color = emotionColor(name);
+  return (
+    <div className="flex items-center gap-1" role="radiogroup" aria-label={`${name}的强度`}>
+      {Array.from({ length: MAX_EMOTION_INTENSITY }, (_, i) => i + 1).map(intensity => (
+        <button
+          key={intensity}
+          type="button"
+          role="radio"
+          aria-checked={value === intensity}
+          onClick={() => onChange(intensity)}
+          disabled={disabled}
+          title={`强度 ${intensity}`}
+          className="w-4 h-4 rounded-full border-2 transition-colors disabled:opacity-50"
+          style={{ borderColor: color, backgroundColor: intensity <= value ? color : 'transparent' }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const EntryCard: React.FC<EntryCardProps> = ({ entry, snippet, onEdit, onDelete, onTagClick }) => {
   const { settings, isLoading } = useApp();
-  const mood = moodOptions.find(m => m.value === entry.mood);
+  const mood = findMood(useMoodScale(), entry.mood);
   
   return (
     <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6 shadow-sm hover:shadow-md transition-shadow`}>
       <div className="flex items-start justify-between mb-4">
         <div className="flex items-center gap-3">
-          <div className="w-10 h-10 rounded-full flex items-center justify-center text-lg" style={{ backgroundColor: mood?.color + '20' }}>
-            {mood?.emoji}
+          <div className="w-10 h-10 rounded-full flex items-center justify-center text-lg" style={{ backgroundColor: mood.color + '20' }}>
+            {mood.emoji}
           </div>
           <div>
             <h3 className={`font-semibold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
               {new Date(entry.date).toLocaleDateString('zh-CN')}
             </h3>
             <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-              {mood?.label}
+              {mood.label}
             </p>
           </div>
         </div>
@@ -381,64 +1166,445 @@ const EntryCard: React.FC<EntryCardProps> = ({ entry, onEdit, onDelete }) => {
         </div>
       </div>
       
-      <div className={`${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'} prose prose-sm max-w-none ${settings.theme === 'dark' ? 'prose-invert' : ''}`}>
-        <ReactMarkdown
-          components={{
-            h1: ({ children }) => <h1 className="text-lg font-bold mb-2">{children}</h1>,
-            h2: ({ children }) => <h2 className="text-base font-semibold mb-1">{children}</h2>,
-            h3: ({ children }) => <h3 className="text-sm font-medium mb-1">{children}</h3>,
-            p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-            ul: ({ children }) => <ul className="list-disc list-inside mb-2">{children}</ul>,
-            ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
-            li: ({ children }) => <li className="mb-1">{children}</li>,
-            strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-            em: ({ children }) => <em className="italic">{children}</em>,
-            code: ({ children }) => <code className={`px-1 py-0.5 rounded text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</code>,
-            pre: ({ children }) => <pre className={`p-3 rounded-lg overflow-x-auto text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</pre>,
-            blockquote: ({ children }) => <blockquote className={`pl-4 border-l-2 italic ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>{children}</blockquote>,
-            a: ({ children, href }) => <a href={href} className="text-purple-500 hover:text-purple-600 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
-          }}
-        >
-          {entry.content}
-        </ReactMarkdown>
-      </div>
+      {snippet ? (
+        <div className={settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}>
+          <HighlightedSnippet snippet={snippet} />
+        </div>
+      ) : (
+        <div className={`${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'} prose prose-sm max-w-none ${settings.theme === 'dark' ? 'prose-invert' : ''}`}>
+          <ReactMarkdown
+            components={{
+              h1: ({ children }) => <h1 className="text-lg font-bold mb-2">{children}</h1>,
+              h2: ({ children }) => <h2 className="text-base font-semibold mb-1">{children}</h2>,
+              h3: ({ children }) => <h3 className="text-sm font-medium mb-1">{children}</h3>,
+              p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+              ul: ({ children }) => <ul className="list-disc list-inside mb-2">{children}</ul>,
+              ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
+              li: ({ children }) => <li className="mb-1">{children}</li>,
+              strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+              em: ({ children }) => <em className="italic">{children}</em>,
+              code: ({ children }) => <code className={`px-1 py-0.5 rounded text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</code>,
+              pre: ({ children }) => <pre className={`p-3 rounded-lg overflow-x-auto text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</pre>,
+              blockquote: ({ children }) => <blockquote className={`pl-4 border-l-2 italic ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>{children}</blockquote>,
+              a: ({ children, href }) => <a href={href} className="text-purple-500 hover:text-purple-600 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
+            }}
+          >
+            {entry.content}
+          </ReactMarkdown>
+        </div>
+      )}
+
+      {entry.emotions && entry.emotions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {entry.emotions.map(emotion => <EmotionChip key={emotion.name} emotion={emotion} />)}
+        </div>
+      )}
+
+      {entry.tags && entry.tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {entry.tags.map(tag => (
+            <TagChip key={tag} tag={tag} onClick={onTagClick ? () => onTagClick(tag) : undefined} />
+          ))}
+        </div>
+      )}
+
+      {entry.attachments && <VoiceMemoList attachments={entry.attachments} />}
+      {entry.attachments && <PhotoStrip attachments={entry.attachments} />}
     </div>
   );
 };
 
-// Modal Components
-interface EntryModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  entry?: Entry | null;
+// Revision History Panel Component - 历史版本对比与恢复
+interface RevisionHistoryPanelProps {
+  entryId: string;
+  currentContent: string;
+  currentMood: string;
+  reloadKey: number;
+  onRestore: (revision: EntryRevision) => void;
 }
 
-const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, entry = null }) => {
-  const { addEntry, updateEntry, settings, isLoading } = useApp();
-  const [content, setContent] = useState(entry?.content || '');
-  const [mood, setMood] = useState(entry?.mood || 'neutral');
-  const [isPreviewMode, setIsPreviewMode] = useState(false);
-  
+const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({ entryId, currentContent, currentMood, reloadKey, onRestore }) => {
+  const { settings, isLoading } = useApp();
+  const moodScale = useMoodScale();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('current');
+
   useEffect(() => {
-    if (entry) {
-      setContent(entry.content || '');
-      setMood(entry.mood || 'neutral');
-    } else {
-      setContent('');
-      setMood('neutral');
-    }
-  }, [entry]);
+    DataService.getRevisions(entryId).then(data => {
+      setRevisions(data);
+      setBaseId(data[0]?.id ?? '');
+      setCompareId('current');
+    });
+  }, [entryId, reloadKey]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // 可对比的版本："current" 为当前编辑内容，其余为历史版本
+  const versions = [
+    { id: 'current', label: '当前内容', content: currentContent, mood: currentMood },
+    ...revisions.map(revision => ({
+      id: revision.id,
+      label: new Date(revision.savedAt).toLocaleString('zh-CN'),
+      content: revision.content,
+      mood: revision.mood
+    }))
+  ];
+  const base = versions.find(version => version.id === baseId);
+  const compare = versions.find(version => version.id === compareId);
+  const moodLabel = (value: string) => findMood(moodScale, value).label;
+
+  const selectClassName = `flex-1 px-3 py-1 rounded-lg border text-sm ${
+    settings.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-purple-500`;
+
+  if (revisions.length === 0) {
+    return (
+      <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        这条记录还没有历史版本
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className={selectClassName}>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{version.label}</option>
+          ))}
+        </select>
+        <span className={settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}>→</span>
+        <select value={compareId} onChange={(e) => setCompareId(e.target.value)} className={selectClassName}>
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{version.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {base && compare && (
+        <div className={`rounded-lg border text-xs font-mono max-h-60 overflow-y-auto ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>
+          {base.mood !== compare.mood && (
+            <div className={`px-3 py-1 border-b ${settings.theme === 'dark' ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'}`}>
+              心情：{moodLabel(base.mood)} → {moodLabel(compare.mood)}
+            </div>
+          )}
+          {diffLines(base.content, compare.content).map((line, index) => (
+            <div
+              key={index}
+              className={`px-3 whitespace-pre-wrap ${
+                line.type === 'added'
+                  ? 'bg-emerald-100 text-emerald-800'
+                  : line.type === 'removed'
+                    ? 'bg-red-100 text-red-800 line-through'
+                    : settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+              }`}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {revisions.map(revision => (
+          <div key={revision.id} className="flex items-center justify-between text-sm">
+            <span className={settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}>
+              {findMood(moodScale, revision.mood).emoji} {new Date(revision.savedAt).toLocaleString('zh-CN')}
+            </span>
+            <button
+              type="button"
+              onClick={() => onRestore(revision)}
+              disabled={isLoading}
+              className="text-purple-500 hover:text-purple-600 disabled:opacity-50"
+            >
+              恢复此版本
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Conflict Resolution Component - 记录已在别处被修改时，并排显示两个版本
+interface ConflictResolutionProps {
+  mine: { content: string; mood: string };
+  theirs: Entry;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onEditAgain: () => void;
+}
+
+const ConflictResolution: React.FC<ConflictResolutionProps> = ({ mine, theirs, onKeepMine, onUseTheirs, onEditAgain }) => {
+  const { settings, isLoading } = useApp();
+  const moodScale = useMoodScale();
+
+  const versions = [
+    { key: 'mine', title: '你的版本', content: mine.content, mood: mine.mood },
+    {
+      key: 'theirs',
+      title: `其他地方保存的版本${theirs.updatedAt ? `（${new Date(theirs.updatedAt).toLocaleString('zh-CN')}）` : ''}`,
+      content: theirs.content,
+      mood: theirs.mood
+    }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+        这条记录在你编辑期间已在其他标签页或设备上被修改。请选择要保留的版本，或返回编辑手动合并。
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {versions.map(version => {
+          const mood = findMood(moodScale, version.mood);
+          return (
+            <div key={version.key} className={`rounded-lg border p-3 ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>
+              <h3 className={`text-sm font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                {version.title}
+              </h3>
+              <p className={`text-sm mb-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                {mood.emoji} {mood.label}
+              </p>
+              <pre className={`text-sm whitespace-pre-wrap font-sans max-h-60 overflow-y-auto ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                {version.content}
+              </pre>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={onKeepMine}
+          disabled={isLoading}
+          className="bg-gray-900 text-white py-2 px-4 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+        >
+          保留我的版本
+        </button>
+        <button
+          type="button"
+          onClick={onUseTheirs}
+          disabled={isLoading}
+          className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+            settings.theme === 'dark'
+              ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          使用对方的版本
+        </button>
+        <button
+          type="button"
+          onClick={onEditAgain}
+          disabled={isLoading}
+          className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+            settings.theme === 'dark'
+              ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          返回编辑
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Modal Components
+interface EntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entry?: Entry | null;
+}
+
+const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, entry = null }) => {
+  const { addEntry, updateEntry, settings, isLoading } = useApp();
+  const tagCounts = useEntryStats()?.tags ?? [];
+  const moodScale = useMoodScale();
+  const [content, setContent] = useState(entry?.content || '');
+  const [mood, setMood] = useState(entry?.mood || defaultMood(moodScale));
+  const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisionsKey, setRevisionsKey] = useState(0);
+  // 打开编辑时记录的修订号，保存时用于检测并发修改
+  const [baseRevision, setBaseRevision] = useState(entry?.revision ?? 0);
+  const [conflict, setConflict] = useState<Entry | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>(entry?.attachments ?? []);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [isUploadingVoice, setIsUploadingVoice] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  // 手动添加的标签；正文中的 #标签 在保存时自动加入
+  const [tags, setTags] = useState<string[]>(entry?.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+  const [emotions, setEmotions] = useState<EntryEmotion[]>(entry?.emotions ?? []);
+  const [showEmotionWheel, setShowEmotionWheel] = useState(false);
+  
+  useEffect(() => {
+    if (entry) {
+      setContent(entry.content || '');
+      setMood(entry.mood || defaultMood(moodScale));
+    } else {
+      setContent('');
+      setMood(defaultMood(moodScale));
+    }
+    setAttachments(entry?.attachments ?? []);
+    setTags(entry?.tags ?? []);
+    setTagInput('');
+    setEmotions(entry?.emotions ?? []);
+    setShowEmotionWheel(false);
+    setBaseRevision(entry?.revision ?? 0);
+    setConflict(null);
+    setShowHistory(false);
+  }, [entry]);
+
+  // 上传选择、拖入或粘贴的照片，上传成功后按顺序加到附件列表末尾
+  const addPhotos = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setUploadingCount(count => count + images.length);
+    let failed = 0;
+    for (const file of images) {
+      const attachment = await DataService.uploadAttachment(file);
+      if (attachment) {
+        setAttachments(prev => [...prev, attachment]);
+      } else {
+        failed++;
+      }
+      setUploadingCount(count => count - 1);
+    }
+    if (failed > 0) {
+      alert(`${failed} 张照片上传失败，请检查网络连接和文件格式后重试`);
+    }
+  };
+
+  const addVoiceMemo = async (file: File, duration: number) => {
+    setIsUploadingVoice(true);
+    const attachment = await DataService.uploadAttachment(file, { duration });
+    setIsUploadingVoice(false);
+    if (attachment) {
+      setAttachments(prev => [...prev, attachment]);
+    } else {
+      alert('语音上传失败，请检查网络连接后重试');
+    }
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(item => item.id !== id));
+  };
+
+  const photos = attachments.filter(attachment => attachment.kind === 'image');
+  const voiceMemos = attachments.filter(attachment => attachment.kind === 'audio');
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      e.preventDefault();
+      addPhotos(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (Array.from(e.dataTransfer.types).includes('Files')) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addPhotos(Array.from(e.dataTransfer.files));
+  };
+
+  // 没有附件的日记不写入空的附件列表，避免没有修改时也产生新的修订号
+  const attachmentFields = attachments.length > 0 || entry?.attachments ? { attachments } : {};
+
+  const contentTags = extractHashtags(content);
+  const allTags = mergeTags(tags, contentTags);
+  const tagFields = allTags.length > 0 || entry?.tags ? { tags: allTags } : {};
+  const isTagInputValid = !tagInput.trim() || normalizeTag(tagInput) !== null;
+
+  // 与附件相同，没有情绪的日记不写入空列表
+  const emotionFields = emotions.length > 0 || entry?.emotions ? { emotions } : {};
+
+  const toggleEmotion = (name: string) => {
+    setEmotions(prev => (prev.some(emotion => emotion.name === name)
+      ? prev.filter(emotion => emotion.name !== name)
+      : [...prev, { name, intensity: DEFAULT_EMOTION_INTENSITY }]));
+  };
+
+  const setEmotionIntensity = (name: string, intensity: number) => {
+    setEmotions(prev => prev.map(emotion => (emotion.name === name ? { ...emotion, intensity } : emotion)));
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag) {
+      setTags(prev => mergeTags(prev, [tag]));
+      setTagInput('');
+    }
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 回车不提交表单
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !tagInput) {
+      const removable = tags.filter(tag => !contentTags.includes(tag));
+      setTags(prev => prev.filter(tag => tag !== removable[removable.length - 1]));
+    }
+  };
+
+  // 保存修改，成功返回 true；发生冲突时切换到冲突处理界面
+  const saveChanges = async (updates: Partial<Entry>, expectedRevision: number) => {
+    if (!entry) return false;
+    const result = await updateEntry(entry.id, updates, expectedRevision);
+    if (result.status === 'saved') {
+      setBaseRevision(result.entry.revision ?? 0);
+    } else if (result.status === 'conflict') {
+      setConflict(result.current);
+    }
+    return result.status === 'saved' || result.status === 'queued';
+  };
+
+  // 恢复历史版本：立即保存，当前内容会作为新的历史版本保留
+  const handleRestore = async (revision: EntryRevision) => {
+    if (await saveChanges({ content: revision.content, mood: revision.mood }, baseRevision)) {
+      setContent(revision.content);
+      setMood(revision.mood);
+      setRevisionsKey(key => key + 1);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (entry) {
-      await updateEntry(entry.id, { content, mood });
+      if (!await saveChanges({ content, mood, ...attachmentFields, ...tagFields, ...emotionFields }, baseRevision)) {
+        return;
+      }
     } else {
-      await addEntry({ content, mood });
+      await addEntry({ content, mood, ...attachmentFields, ...tagFields, ...emotionFields });
     }
     onClose();
   };
 
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    setConflict(null);
+    if (await saveChanges({ content, mood, ...attachmentFields, ...tagFields, ...emotionFields }, conflict.revision ?? 0)) {
+      onClose();
+    }
+  };
+
+  const handleEditAgain = () => {
+    if (!conflict) return;
+    setBaseRevision(conflict.revision ?? 0);
+    setConflict(null);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -461,143 +1627,389 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, entry = null }
           </button>
         </div>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-              你的心情如何？
-            </label>
-            <div className="flex flex-wrap gap-2">
-              {moodOptions.map(option => (
+        {conflict ? (
+          <ConflictResolution
+            mine={{ content, mood }}
+            theirs={conflict}
+            onKeepMine={handleKeepMine}
+            onUseTheirs={onClose}
+            onEditAgain={handleEditAgain}
+          />
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            onDragOver={handleDragOver}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+            }}
+            onDrop={handleDrop}
+            className={`space-y-4 rounded-lg ${isDragging ? 'ring-2 ring-purple-500 ring-offset-4' : ''}`}
+          >
+            <div>
+              <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                你的心情如何？
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {moodScale.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setMood(option.value)}
+                    disabled={isLoading}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+                      mood === option.value
+                        ? 'border-purple-500 bg-purple-50 text-purple-700'
+                        : settings.theme === 'dark'
+                          ? 'border-gray-600 bg-gray-700 text-gray-300 hover:bg-gray-600'
+                          : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="text-lg">{option.emoji}</span>
+                    <span className="text-sm">{option.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`text-sm font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  还有哪些情绪？
+                </label>
                 <button
-                  key={option.value}
                   type="button"
-                  onClick={() => setMood(option.value)}
+                  onClick={() => setShowEmotionWheel(!showEmotionWheel)}
                   disabled={isLoading}
-                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
-                    mood === option.value
-                      ? 'border-purple-500 bg-purple-50 text-purple-700'
+                  className={`px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                    showEmotionWheel
+                      ? 'bg-purple-500 text-white hover:bg-purple-600'
                       : settings.theme === 'dark'
-                        ? 'border-gray-600 bg-gray-700 text-gray-300 hover:bg-gray-600'
-                        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                   }`}
                 >
-                  <span className="text-lg">{option.emoji}</span>
-                  <span className="text-sm">{option.label}</span>
+                  情绪轮
                 </button>
-              ))}
+              </div>
+              {showEmotionWheel && (
+                <div className="flex justify-center mb-3">
+                  <EmotionWheel selected={emotions.map(emotion => emotion.name)} onToggle={toggleEmotion} disabled={isLoading} />
+                </div>
+              )}
+              {emotions.length === 0 ? (
+                <p className={`text-xs ${settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                  可以从情绪轮中再选几种此刻的情绪，例如"焦虑但兴奋"，并为每种情绪标出强度
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {emotions.map(emotion => (
+                    <li key={emotion.name} className="flex items-center gap-3">
+                      <span className="text-sm font-medium w-12" style={{ color: emotionColor(emotion.name) }}>
+                        {emotion.name}
+                      </span>
+                      <IntensityPicker
+                        name={emotion.name}
+                        value={emotion.intensity}
+                        onChange={(intensity) => setEmotionIntensity(emotion.name, intensity)}
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => toggleEmotion(emotion.name)}
+                        disabled={isLoading}
+                        title="移除情绪"
+                        className={`p-1 rounded transition-colors disabled:opacity-50 ${
+                          settings.theme === 'dark' ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'
+                        }`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
-          </div>
           
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <label className={`text-sm font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-                今天发生了什么？
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`text-sm font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  今天发生了什么？
+                </label>
+                <div className="flex items-center gap-2">
+                  {entry && (
+                    <button
+                      type="button"
+                      onClick={() => setShowHistory(!showHistory)}
+                      disabled={isLoading}
+                      className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                        showHistory
+                          ? 'bg-purple-500 text-white hover:bg-purple-600'
+                          : settings.theme === 'dark'
+                            ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      <History className="w-4 h-4" />
+                      历史版本
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setIsPreviewMode(!isPreviewMode)}
+                    disabled={isLoading}
+                    className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                      isPreviewMode
+                        ? 'bg-purple-500 text-white hover:bg-purple-600'
+                        : settings.theme === 'dark'
+                          ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {isPreviewMode ? (
+                      <>
+                        <Code className="w-4 h-4" />
+                        编辑
+                      </>
+                    ) : (
+                      <>
+                        <Eye className="w-4 h-4" />
+                        预览
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+            
+              {isPreviewMode ? (
+                <div className={`w-full h-32 p-3 rounded-lg border overflow-y-auto ${
+                  settings.theme === 'dark'
+                    ? 'bg-gray-700 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-900'
+                }`}>
+                                   {content.trim() ? (
+                     <ReactMarkdown
+                       components={{
+                         h1: ({ children }) => <h1 className="text-lg font-bold mb-2">{children}</h1>,
+                         h2: ({ children }) => <h2 className="text-base font-semibold mb-1">{children}</h2>,
+                         h3: ({ children }) => <h3 className="text-sm font-medium mb-1">{children}</h3>,
+                         p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                         ul: ({ children }) => <ul className="list-disc list-inside mb-2">{children}</ul>,
+                         ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
+                         li: ({ children }) => <li className="mb-1">{children}</li>,
+                         strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                         em: ({ children }) => <em className="italic">{children}</em>,
+                         code: ({ children }) => <code className={`px-1 py-0.5 rounded text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</code>,
+                         pre: ({ children }) => <pre className={`p-3 rounded-lg overflow-x-auto text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</pre>,
+                         blockquote: ({ children }) => <blockquote className={`pl-4 border-l-2 italic ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>{children}</blockquote>,
+                         a: ({ children, href }) => <a href={href} className="text-purple-500 hover:text-purple-600 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
+                       }}
+                     >
+                       {content}
+                     </ReactMarkdown>
+                   ) : (
+                    <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                      在编辑模式下输入内容以查看预览...
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <textarea
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  onPaste={handlePaste}
+                  placeholder="记录你的一天，想法，或任何你想要记住的事情...&#10;&#10;支持 Markdown 语法：&#10;# 标题 1&#10;## 标题 2&#10;**粗体** *斜体*&#10;`代码`&#10;[链接](https://example.com)"
+                  disabled={isLoading}
+                  className={`w-full h-32 p-3 rounded-lg border resize-none disabled:opacity-50 ${
+                    settings.theme === 'dark'
+                      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                  } focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent`}
+                  required={attachments.length === 0}
+                />
+              )}
+            </div>
+
+            <div>
+              <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                标签
               </label>
-              <div className="flex items-center gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {allTags.map(tag => (
+                  <TagChip key={tag} tag={tag}>
+                    {!contentTags.includes(tag) && (
+                      <button
+                        type="button"
+                        onClick={() => setTags(prev => prev.filter(item => item !== tag))}
+                        disabled={isLoading}
+                        title="移除标签"
+                        className="hover:opacity-70 disabled:opacity-50"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </TagChip>
+                ))}
+                <input
+                  type="text"
+                  list="entry-tag-options"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  onBlur={addTag}
+                  placeholder="添加标签"
+                  disabled={isLoading}
+                  className={`flex-1 min-w-[8rem] px-3 py-1 rounded-lg border text-sm disabled:opacity-50 ${
+                    settings.theme === 'dark'
+                      ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
+                      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                  } focus:outline-none focus:ring-2 ${isTagInputValid ? 'focus:ring-purple-500' : 'ring-2 ring-red-500 focus:ring-red-500'}`}
+                />
+                <datalist id="entry-tag-options">
+                  {tagCounts.filter(([tag]) => !allTags.includes(tag)).map(([tag]) => <option key={tag} value={tag} />)}
+                </datalist>
+              </div>
+              <p className={`text-xs mt-2 ${isTagInputValid ? (settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400') : 'text-red-500'}`}>
+                {isTagInputValid
+                  ? '正文中的 #标签 会自动加入；按回车添加其他标签'
+                  : '标签只能包含文字、数字、_、- 和 /，最长 50 个字符'}
+              </p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`text-sm font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  照片
+                </label>
                 <button
                   type="button"
-                  onClick={() => setIsPreviewMode(!isPreviewMode)}
+                  onClick={() => photoInputRef.current?.click()}
                   disabled={isLoading}
                   className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
-                    isPreviewMode
-                      ? 'bg-purple-500 text-white hover:bg-purple-600'
-                      : settings.theme === 'dark'
-                        ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    settings.theme === 'dark'
+                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                   }`}
                 >
-                  {isPreviewMode ? (
-                    <>
-                      <Code className="w-4 h-4" />
-                      编辑
-                    </>
-                  ) : (
-                    <>
-                      <Eye className="w-4 h-4" />
-                      预览
-                    </>
-                  )}
+                  <Camera className="w-4 h-4" />
+                  添加照片
                 </button>
               </div>
+              <input
+                ref={photoInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => {
+                  addPhotos(Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              {photos.length === 0 && uploadingCount === 0 ? (
+                <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  可以选择照片，也可以把照片拖到这里或粘贴到文本框中
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {photos.map(attachment => (
+                    <div key={attachment.id} className="relative">
+                      <AttachmentImage attachment={attachment} variant="thumbnail" className="w-20 h-20 object-cover rounded-lg" />
+                      <button
+                        type="button"
+                        onClick={() => removeAttachment(attachment.id)}
+                        disabled={isLoading}
+                        title="移除照片"
+                        className="absolute -top-2 -right-2 p-1 rounded-full bg-gray-900 text-white hover:bg-black transition-colors disabled:opacity-50"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {uploadingCount > 0 && (
+                    <div className={`w-20 h-20 rounded-lg border-2 border-dashed flex items-center justify-center ${
+                      settings.theme === 'dark' ? 'border-gray-600 text-gray-400' : 'border-gray-300 text-gray-500'
+                    }`}>
+                      <LoadingSpinner />
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
-            
-            {isPreviewMode ? (
-              <div className={`w-full h-32 p-3 rounded-lg border overflow-y-auto ${
-                settings.theme === 'dark'
-                  ? 'bg-gray-700 border-gray-600 text-white'
-                  : 'bg-white border-gray-300 text-gray-900'
-              }`}>
-                                 {content.trim() ? (
-                   <ReactMarkdown
-                     components={{
-                       h1: ({ children }) => <h1 className="text-lg font-bold mb-2">{children}</h1>,
-                       h2: ({ children }) => <h2 className="text-base font-semibold mb-1">{children}</h2>,
-                       h3: ({ children }) => <h3 className="text-sm font-medium mb-1">{children}</h3>,
-                       p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                       ul: ({ children }) => <ul className="list-disc list-inside mb-2">{children}</ul>,
-                       ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
-                       li: ({ children }) => <li className="mb-1">{children}</li>,
-                       strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                       em: ({ children }) => <em className="italic">{children}</em>,
-                       code: ({ children }) => <code className={`px-1 py-0.5 rounded text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</code>,
-                       pre: ({ children }) => <pre className={`p-3 rounded-lg overflow-x-auto text-xs font-mono ${settings.theme === 'dark' ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-800'}`}>{children}</pre>,
-                       blockquote: ({ children }) => <blockquote className={`pl-4 border-l-2 italic ${settings.theme === 'dark' ? 'border-gray-600' : 'border-gray-300'}`}>{children}</blockquote>,
-                       a: ({ children, href }) => <a href={href} className="text-purple-500 hover:text-purple-600 underline" target="_blank" rel="noopener noreferrer">{children}</a>,
-                     }}
-                   >
-                     {content}
-                   </ReactMarkdown>
-                 ) : (
-                  <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
-                    在编辑模式下输入内容以查看预览...
-                  </p>
-                )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className={`text-sm font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  语音
+                </label>
+                <VoiceRecorder onRecorded={addVoiceMemo} disabled={isLoading || isUploadingVoice} />
               </div>
-            ) : (
-              <textarea
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="记录你的一天，想法，或任何你想要记住的事情...&#10;&#10;支持 Markdown 语法：&#10;# 标题 1&#10;## 标题 2&#10;**粗体** *斜体*&#10;`代码`&#10;[链接](https://example.com)"
-                disabled={isLoading}
-                className={`w-full h-32 p-3 rounded-lg border resize-none disabled:opacity-50 ${
-                  settings.theme === 'dark'
-                    ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400'
-                    : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
-                } focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent`}
-                required
+              {voiceMemos.length === 0 && !isUploadingVoice ? (
+                <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                  录一段语音，保存后可以在日记中播放
+                </p>
+              ) : (
+                <div className="flex flex-col items-start gap-2">
+                  {voiceMemos.map(attachment => (
+                    <div key={attachment.id} className="flex items-center gap-2">
+                      <VoiceMemoPlayer attachment={attachment} />
+                      <button
+                        type="button"
+                        onClick={() => removeAttachment(attachment.id)}
+                        disabled={isLoading}
+                        title="移除语音"
+                        className={`p-1 rounded-full transition-colors disabled:opacity-50 ${
+                          settings.theme === 'dark' ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'
+                        }`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {isUploadingVoice && <LoadingSpinner />}
+                </div>
+              )}
+            </div>
+
+            {entry && showHistory && (
+              <RevisionHistoryPanel
+                entryId={entry.id}
+                currentContent={content}
+                currentMood={mood}
+                reloadKey={revisionsKey}
+                onRestore={handleRestore}
               />
             )}
-          </div>
           
-          <div className="flex gap-3 pt-4">
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="flex-1 bg-gray-900 text-white py-2 px-4 rounded-lg hover:bg-black transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
-            >
-              {isLoading ? (
-                <LoadingSpinner />
-              ) : (
-                <>
-                  <Save className="w-4 h-4" />
-                  {entry ? '更新记录' : '保存记录'}
-                </>
-              )}
-            </button>
-            <button
-              type="button"
-              onClick={onClose}
-              disabled={isLoading}
-              className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
-                settings.theme === 'dark'
-                  ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
-                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
-              }`}
-            >
-              取消
-            </button>
-          </div>
-        </form>
+            <div className="flex gap-3 pt-4">
+              <button
+                type="submit"
+                disabled={isLoading || uploadingCount > 0 || isUploadingVoice}
+                className="flex-1 bg-gray-900 text-white py-2 px-4 rounded-lg hover:bg-black transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isLoading ? (
+                  <LoadingSpinner />
+                ) : (
+                  <>
+                    <Save className="w-4 h-4" />
+                    {entry ? '更新记录' : '保存记录'}
+                  </>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isLoading}
+                className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+                  settings.theme === 'dark'
+                    ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                取消
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -605,26 +2017,23 @@ const EntryModal: React.FC<EntryModalProps> = ({ isOpen, onClose, entry = null }
 
 // Home Page Component
 const HomePage = () => {
-  const { entries, setShowModal, setEditingEntry, deleteEntry, settings, isLoading } = useApp();
-  const recentEntries = entries.slice(0, 5);
+  const { setShowModal, setEditingEntry, deleteEntry, settings, isLoading, dataIssues } = useApp();
+  const moodScale = useMoodScale();
+  const recentEntries = useRecentEntries(5);
+  const stats = useEntryStats();
+
+  // 计算这周的记录数量
+  const now = new Date();
+  const startOfWeek = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
+  const thisWeekEntries = useEntryStats({ from: startOfWeek.toISOString() })?.total ?? 0;
   
   const handleEdit = (entry: Entry) => {
     setEditingEntry(entry);
     setShowModal('editEntry');
   };
 
-  const moodCounts = entries.reduce((acc, entry) => {
-    acc[entry.mood] = (acc[entry.mood] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
-  const topMood = Object.entries(moodCounts).sort(([,a], [,b]) => b - a)[0];
-  const topMoodLabel = topMood ? moodOptions.find(m => m.value === topMood[0])?.label : undefined;
-
-  // 计算这周的记录数量
-  const now = new Date();
-  const startOfWeek = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
-  const thisWeekEntries = entries.filter(entry => new Date(entry.date) >= startOfWeek).length;
+  const topMood = Object.entries(stats?.moods ?? {}).sort(([,a], [,b]) => b - a)[0];
+  const topMoodLabel = topMood ? findMood(moodScale, topMood[0]).label : undefined;
 
   return (
     <div className="space-y-8">
@@ -657,7 +2066,7 @@ const HomePage = () => {
             总记录数
           </h3>
           <p className={`text-3xl font-bold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`} style={{ color: '#8B5CF6' }}>
-            {entries.length}
+            {stats?.total ?? 0}
           </p>
         </div>
         
@@ -685,13 +2094,15 @@ const HomePage = () => {
         <h2 className={`text-2xl font-bold mb-6 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
           最近记录
         </h2>
-        {isLoading ? (
+        {isLoading || recentEntries === null ? (
           <div className="text-center py-8">
             <LoadingSpinner />
             <p className={`mt-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
               正在加载数据...
             </p>
           </div>
+        ) : isEntriesFileCorrupted(dataIssues) ? (
+          <DataUnavailableState />
         ) : recentEntries.length === 0 ? (
           <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
             <Edit3 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
@@ -728,22 +2139,160 @@ const HomePage = () => {
 
 // Journal Page Component
 const JournalPage = () => {
-  const { entries, setShowModal, setEditingEntry, deleteEntry, settings, isLoading } = useApp();
+  const { entriesChange, setShowModal, setEditingEntry, deleteEntry, settings, setSettings, isLoading, dataIssues } = useApp();
+  const moodScale = useMoodScale();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedMood, setSelectedMood] = useState('all');
-  
-  const handleEdit = (entry: Entry) => {
-    setEditingEntry(entry);
-    setShowModal('editEntry');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  // 只保存已经滚动加载的日记，不一次读取全部
+  const [loadedEntries, setLoadedEntries] = useState<Entry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  // 搜索时每篇日记的高亮摘要，以及匹配的总数
+  const [snippets, setSnippets] = useState<Record<string, SearchSnippet>>({});
+  const [searchTotal, setSearchTotal] = useState(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // 每次筛选条件变化时递增，用来丢弃旧条件下仍在进行的请求结果
+  const queryVersion = useRef(0);
+  const handledVersion = useRef(entriesChange.version);
+
+  // 搜索语句解析为筛选条件和全文搜索词；有搜索词时改用全文搜索，结果按相关度排序
+  const parsedQuery = parseSearchQuery(debouncedSearchTerm, moodScale);
+  const { filter } = parsedQuery;
+  const searchQuery = parsedQuery.text;
+  const filterKey = JSON.stringify({ filter, searchQuery });
+  const hasFilters = Boolean(searchTerm.trim());
+
+  const savedSearches = settings.savedSearches ?? [];
+  const currentQuery = searchTerm.trim();
+
+  const applySavedSearch = (query: string) => {
+    setSearchTerm(query);
+    setDebouncedSearchTerm(query);
   };
 
-  const filteredEntries = entries.filter(entry => {
-    const matchesSearch = entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesMood = selectedMood === 'all' || entry.mood === selectedMood;
-    return matchesSearch && matchesMood;
-  });
+  const saveCurrentSearch = () => {
+    const name = prompt('为这个搜索起个名字：', currentQuery)?.trim();
+    if (!name) {
+      return;
+    }
+    const search: SavedSearch = { id: `${Date.now()}-${Math.random().toString(36).slice(2)}`, name, query: currentQuery };
+    setSettings(prev => ({ ...prev, savedSearches: [...(prev.savedSearches ?? []), search] }));
+  };
 
-  return (
+  const removeSavedSearch = (id: string) => {
+    setSettings(prev => ({ ...prev, savedSearches: (prev.savedSearches ?? []).filter(search => search.id !== id) }));
+  };
+
+  // 按标签筛选：在搜索语句中加入或去掉 #标签
+  const tagCounts = useEntryStats()?.tags ?? [];
+  const toggleTag = (tag: string) => {
+    // 标签中没有正则表达式的特殊字符
+    const token = new RegExp(`(^|\\s)#${tag}(?=\\s|$)`, 'g');
+    const query = token.test(searchTerm)
+      ? searchTerm.replace(token, '').trim()
+      : `${searchTerm.trim()} #${tag}`.trim();
+    applySavedSearch(query);
+  };
+
+  const handleEdit = (entry: Entry) => {
+    setEditingEntry(entry);
+    setShowModal('editEntry');
+  };
+
+  // 搜索结果按位置分页，cursor 为已加载的结果数
+  const loadPage = async (cursor: string | null) => {
+    const version = queryVersion.current;
+    setIsLoadingPage(true);
+    let page: EntryPage;
+    if (searchQuery) {
+      const offset = cursor ? Number(cursor) : 0;
+      const result = await DataService.searchEntries(searchQuery, filter, offset);
+      if (version !== queryVersion.current) {
+        return;
+      }
+      const loaded = offset + result.hits.length;
+      page = {
+        entries: result.hits.map(hit => hit.entry),
+        nextCursor: result.hits.length > 0 && loaded < result.total ? String(loaded) : null
+      };
+      setSnippets(prev => ({ ...prev, ...Object.fromEntries(result.hits.map(hit => [hit.entry.id, hit.snippet])) }));
+      setSearchTotal(result.total);
+    } else {
+      page = await DataService.getEntriesPage(filter, cursor);
+      if (version !== queryVersion.current) {
+        return;
+      }
+    }
+    setLoadedEntries(prev => cursor ? [...prev, ...page.entries] : page.entries);
+    setNextCursor(page.nextCursor);
+    setIsLoadingPage(false);
+  };
+
+  // 输入停顿后再按关键词查询
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const reload = () => {
+    queryVersion.current++;
+    setNextCursor(null);
+    setSnippets({});
+    loadPage(null);
+  };
+
+  useEffect(() => {
+    setLoadedEntries([]);
+    reload();
+  }, [filterKey]);
+
+  // 列表底部进入视口时加载下一页
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoadingPage) {
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        loadPage(nextCursor);
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingPage, filterKey]);
+
+  // 新建、编辑和删除都经由全局状态通知，把有变化的日记同步到已加载的列表中。
+  // 还有下一页时，排在已加载部分之后的日记留给之后的分页加载；无法确定变化了哪些日记时重新读取。
+  // 搜索结果的相关度只有服务器能计算，因此只更新或移除已在结果中的日记，修改过的日记不再显示摘要
+  useEffect(() => {
+    if (entriesChange.version === handledVersion.current) {
+      return;
+    }
+    handledVersion.current = entriesChange.version;
+    const { update } = entriesChange;
+    if (!update) {
+      reload();
+      return;
+    }
+
+    const id = update.type === 'put' ? update.entry.id : update.id;
+    if (update.type === 'patch' || searchQuery) {
+      setLoadedEntries(prev => (update.type === 'delete'
+        ? prev.filter(entry => entry.id !== id)
+        : prev.map(entry => (entry.id !== id ? entry : update.type === 'put' ? update.entry : { ...entry, ...update.updates }))));
+      setSnippets(prev => Object.fromEntries(Object.entries(prev).filter(([snippetId]) => snippetId !== id)));
+      return;
+    }
+    setLoadedEntries(prev => {
+      const boundary = prev[prev.length - 1];
+      const others = prev.filter(entry => entry.id !== id);
+      const isVisible = update.type === 'put' && matchesEntryFilter(update.entry, filter) &&
+        (!nextCursor || !boundary || compareEntries(update.entry, boundary) <= 0);
+      return isVisible ? [...others, update.entry].sort(compareEntries) : others;
+    });
+  }, [entriesChange]);
+
+  return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className={`text-3xl font-bold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
@@ -759,93 +2308,181 @@ const JournalPage = () => {
         </button>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="flex-1">
-          <input
-            type="text"
-            placeholder="搜索日记内容..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className={`w-full px-4 py-2 rounded-lg border ${
-              settings.theme === 'dark'
-                ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
-                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
-            } focus:outline-none focus:ring-2 focus:ring-purple-500`}
-          />
-        </div>
-        <select
-          value={selectedMood}
-          onChange={(e) => setSelectedMood(e.target.value)}
-          className={`px-4 py-2 rounded-lg border ${
-            settings.theme === 'dark'
-              ? 'bg-gray-800 border-gray-600 text-white'
-              : 'bg-white border-gray-300 text-gray-900'
-          } focus:outline-none focus:ring-2 focus:ring-purple-500`}
-        >
-          <option value="all">所有心情</option>
-          {moodOptions.map(mood => (
-            <option key={mood.value} value={mood.value}>
-              {mood.emoji} {mood.label}
-            </option>
-          ))}
-        </select>
-      </div>
+      <div className="lg:flex lg:items-start lg:gap-6 space-y-6 lg:space-y-0">
+        {/* Saved Searches */}
+        <aside className={`lg:w-56 shrink-0 ${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-4`}>
+          <h2 className={`text-sm font-semibold mb-3 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            保存的搜索
+          </h2>
+          {savedSearches.length === 0 ? (
+            <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              输入搜索语句后点击"保存搜索"，即可在这里一键使用
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {savedSearches.map(search => (
+                <li key={search.id} className="flex items-center gap-1">
+                  <button
+                    onClick={() => applySavedSearch(search.query)}
+                    title={search.query}
+                    className={`flex-1 min-w-0 truncate text-left text-sm px-3 py-2 rounded-lg transition-colors ${
+                      search.query === currentQuery
+                        ? 'bg-purple-100 text-purple-700'
+                        : settings.theme === 'dark'
+                          ? 'text-gray-300 hover:bg-gray-700'
+                          : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {search.name}
+                  </button>
+                  <button
+                    onClick={() => removeSavedSearch(search.id)}
+                    aria-label={`删除搜索 ${search.name}`}
+                    className={`p-1 rounded ${settings.theme === 'dark' ? 'text-gray-500 hover:text-red-400' : 'text-gray-400 hover:text-red-600'}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
 
-      {/* Entries */}
-      {isLoading ? (
-        <div className="text-center py-8">
-          <LoadingSpinner />
-          <p className={`mt-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-            正在加载数据...
-          </p>
-        </div>
-      ) : filteredEntries.length === 0 ? (
-        <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
-          <Edit3 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
-          <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-            {searchTerm || selectedMood !== 'all' ? '没有找到匹配的记录' : '还没有记录'}
-          </h3>
-          <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'} mb-4`}>
-            {searchTerm || selectedMood !== 'all' ? '尝试调整搜索条件' : '开始记录你的生活和想法吧'}
-          </p>
-          {!searchTerm && selectedMood === 'all' && (
-            <button
-              onClick={() => setShowModal('newEntry')}
-              disabled={isLoading}
-              className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
-            >
-              创建第一条记录
-            </button>
+          <h2 className={`text-sm font-semibold mt-6 mb-3 flex items-center gap-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            <Tag className="w-4 h-4" />
+            标签
+          </h2>
+          {tagCounts.length === 0 ? (
+            <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+              在日记中写下 #标签 即可按标签查看日记
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tagCounts.map(([tag, count]) => (
+                <TagChip key={tag} tag={tag} active={filter.tags?.includes(tag)} onClick={() => toggleTag(tag)}>
+                  <span className="opacity-70">{count}</span>
+                </TagChip>
+              ))}
+            </div>
+          )}
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {/* Filters */}
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder='搜索日记，例如 mood:happy #工作 after:2025-01-01 "完整短语" -排除 words:>200'
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className={`flex-1 min-w-0 px-4 py-2 rounded-lg border ${
+                  settings.theme === 'dark'
+                    ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
+                    : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+                } focus:outline-none focus:ring-2 focus:ring-purple-500`}
+              />
+              <button
+                onClick={saveCurrentSearch}
+                disabled={!currentQuery || savedSearches.some(search => search.query === currentQuery)}
+                className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+                  settings.theme === 'dark'
+                    ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                保存搜索
+              </button>
+            </div>
+            <p className={`text-xs ${settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+              mood: 心情（多个用逗号分隔）· #标签 · after: / before: 日期 · "短语" 完整匹配 · -词 排除 · words: 字数（&gt; &lt; &gt;= &lt;= =）
+            </p>
+            {parsedQuery.errors.map(error => (
+              <p key={error} className="text-xs text-red-500">{error}</p>
+            ))}
+          </div>
+
+          {/* Entries */}
+          {(isLoading || isLoadingPage) && loadedEntries.length === 0 ? (
+            <div className="text-center py-8">
+              <LoadingSpinner />
+              <p className={`mt-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                正在加载数据...
+              </p>
+            </div>
+          ) : isEntriesFileCorrupted(dataIssues) ? (
+            <DataUnavailableState />
+          ) : loadedEntries.length === 0 ? (
+            <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
+              <Edit3 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
+              <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                {hasFilters ? '没有找到匹配的记录' : '还没有记录'}
+              </h3>
+              <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'} mb-4`}>
+                {hasFilters ? '尝试调整搜索条件' : '开始记录你的生活和想法吧'}
+              </p>
+              {!hasFilters && (
+                <button
+                  onClick={() => setShowModal('newEntry')}
+                  disabled={isLoading}
+                  className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+                >
+                  创建第一条记录
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {searchQuery && (
+                <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  找到 {searchTotal} 篇相关日记
+                </p>
+              )}
+              {loadedEntries.map(entry => (
+                <EntryCard
+                  key={entry.id}
+                  entry={entry}
+                  snippet={searchQuery ? snippets[entry.id] : undefined}
+                  onEdit={handleEdit}
+                  onDelete={deleteEntry}
+                  onTagClick={toggleTag}
+                />
+              ))}
+              <div ref={sentinelRef} />
+              {isLoadingPage && (
+                <div className="text-center py-4">
+                  <LoadingSpinner />
+                </div>
+              )}
+              {!nextCursor && !isLoadingPage && (
+                <p className={`text-center text-sm py-4 ${settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                  已经到底了
+                </p>
+              )}
+            </div>
           )}
         </div>
-      ) : (
-        <div className="space-y-4">
-          {filteredEntries.map(entry => (
-            <EntryCard
-              key={entry.id}
-              entry={entry}
-              onEdit={handleEdit}
-              onDelete={deleteEntry}
-            />
-          ))}
-        </div>
-      )}
+      </div>
     </div>
   );
 };
 
 // Calendar Page Component
 const CalendarPage = () => {
-  const { entries, setShowModal, setEditingEntry, settings, isLoading } = useApp();
+  const { setShowModal, setEditingEntry, settings, isLoading } = useApp();
+  const moodScale = useMoodScale();
   const [currentDate, setCurrentDate] = useState(new Date());
+  // 只读取正在显示的这个月的日记
+  const monthEntries = useEntryQuery({
+    from: new Date(currentDate.getFullYear(), currentDate.getMonth(), 1).toISOString(),
+    to: new Date(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1).getTime() - 1).toISOString()
+  });
   
   const handleEdit = (entry: Entry) => {
     setEditingEntry(entry);
     setShowModal('editEntry');
   };
 
-  const entriesByDate = entries.reduce((acc, entry) => {
+  const entriesByDate = (monthEntries ?? []).reduce((acc, entry) => {
     const date = new Date(entry.date).toDateString();
     if (!acc[date]) acc[date] = [];
     acc[date].push(entry);
@@ -959,13 +2596,13 @@ const CalendarPage = () => {
                 {dayEntries.length > 0 && (
                   <div className="absolute bottom-1 left-1 right-1 flex gap-1 overflow-hidden">
                     {dayEntries.slice(0, 2).map(entry => {
-                      const mood = moodOptions.find(m => m.value === entry.mood);
+                      const mood = findMood(moodScale, entry.mood);
                       return (
                         <div
                           key={entry.id}
                           className="w-2 h-2 rounded-full text-xs"
-                          style={{ backgroundColor: mood?.color }}
-                          title={mood?.label}
+                          style={{ backgroundColor: mood.color }}
+                          title={mood.label}
                         />
                       );
                     })}
@@ -985,126 +2622,1448 @@ const CalendarPage = () => {
   );
 };
 
-// Mood Tracker Page Component
-const MoodTrackerPage = () => {
-  const { entries, settings, isLoading } = useApp();
-  
-  const moodCounts = entries.reduce((acc, entry) => {
-    acc[entry.mood] = (acc[entry.mood] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+// Mood Tracker Page Component
+const MoodTrackerPage = () => {
+  const { settings, isLoading } = useApp();
+  const moodScale = useMoodScale();
+  const stats = useEntryStats();
+  const recentEntries = useRecentEntries(10);
+  const total = stats?.total ?? 0;
+  const moodCounts = stats?.moods ?? {};
+
+  const moodStats = moodScale.map(mood => ({
+    ...mood,
+    count: moodCounts[mood.value] || 0,
+    percentage: total > 0 ? ((moodCounts[mood.value] || 0) / total * 100) : 0
+  }));
+
+  // 平均心情分：按心情刻度中的 score 计算，刻度中没有的心情不计入
+  const scoredCount = moodStats.reduce((sum, mood) => sum + mood.count, 0);
+  const averageScore = scoredCount > 0
+    ? moodStats.reduce((sum, mood) => sum + mood.score * mood.count, 0) / scoredCount
+    : null;
+  const maxScore = Math.max(...moodScale.map(mood => mood.score));
+
+  const recentMoods = (recentEntries ?? []).map(entry => ({
+    ...entry,
+    mood: findMood(moodScale, entry.mood)
+  }));
+
+  // 次要情绪按强度加权：占比为该情绪的强度合计占全部情绪强度合计的比例
+  const emotionStats = stats?.emotions ?? [];
+  const totalIntensity = emotionStats.reduce((sum, stat) => sum + stat.totalIntensity, 0);
+  const emotionPairs = (stats?.emotionPairs ?? []).slice(0, 10);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className={`text-3xl font-bold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+          心情追踪
+        </h1>
+      </div>
+
+      {isLoading || stats === null ? (
+        <div className="text-center py-8">
+          <LoadingSpinner />
+          <p className={`mt-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            正在加载数据...
+          </p>
+        </div>
+      ) : total === 0 ? (
+        <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
+          <BarChart3 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
+          <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            还没有数据
+          </h3>
+          <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            开始记录日记来追踪你的心情变化
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Mood Statistics */}
+          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+            <div className="flex items-baseline justify-between mb-4">
+              <h2 className={`text-xl font-semibold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                心情统计
+              </h2>
+              {averageScore !== null && (
+                <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  平均心情分 {averageScore.toFixed(1)}（满分 {maxScore}）
+                </span>
+              )}
+            </div>
+            <div className="space-y-3">
+              {moodStats.map(mood => (
+                <div key={mood.value} className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm" style={{ backgroundColor: mood.color + '20' }}>
+                    {mood.emoji}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex justify-between items-center mb-1">
+                      <span className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                        {mood.label}
+                      </span>
+                      <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {mood.count}次 ({mood.percentage.toFixed(1)}%)
+                      </span>
+                    </div>
+                    <div className={`h-2 rounded-full ${settings.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                      <div
+                        className="h-2 rounded-full transition-all duration-300"
+                        style={{ 
+                          width: `${mood.percentage}%`,
+                          backgroundColor: mood.color
+                        }}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Recent Moods */}
+          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+            <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              最近心情
+            </h2>
+            <div className="space-y-3">
+              {recentMoods.map(entry => (
+                <div key={entry.id} className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm" style={{ backgroundColor: entry.mood.color + '20' }}>
+                    {entry.mood.emoji}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex justify-between items-center">
+                      <span className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                        {entry.mood.label}
+                      </span>
+                      <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {new Date(entry.date).toLocaleDateString('zh-CN')}
+                      </span>
+                    </div>
+                    <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'} truncate`}>
+                      {entry.content}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Emotion Statistics */}
+          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+            <h2 className={`text-xl font-semibold mb-1 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              情绪统计
+            </h2>
+            <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              按强度加权，强度为 5 的一次相当于强度为 1 的五次
+            </p>
+            {emotionStats.length === 0 ? (
+              <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                写日记时从情绪轮中选择情绪，这里会显示各种情绪的分布
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {emotionStats.map(stat => {
+                  const color = emotionColor(stat.name);
+                  const share = stat.totalIntensity / totalIntensity * 100;
+                  return (
+                    <div key={stat.name}>
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="font-medium" style={{ color }}>
+                          {stat.name}
+                        </span>
+                        <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                          {stat.count}次 · 平均强度 {(stat.totalIntensity / stat.count).toFixed(1)} ({share.toFixed(1)}%)
+                        </span>
+                      </div>
+                      <div className={`h-2 rounded-full ${settings.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                        <div
+                          className="h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${share}%`, backgroundColor: color }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Emotion Co-occurrence */}
+          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+            <h2 className={`text-xl font-semibold mb-1 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              常一起出现的情绪
+            </h2>
+            <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+              同一篇日记中同时出现的情绪组合，按两者中较弱的强度加权排序
+            </p>
+            {emotionPairs.length === 0 ? (
+              <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                一篇日记中选择两种以上的情绪后，这里会显示它们一起出现的次数
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {emotionPairs.map(({ names: [first, second], count }) => (
+                  <li key={`${first}+${second}`} className="flex items-center justify-between gap-3">
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      <span style={{ color: emotionColor(first) }}>{first}</span>
+                      <span className={settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}>+</span>
+                      <span style={{ color: emotionColor(second) }}>{second}</span>
+                    </span>
+                    <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {count}次
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Trash Page Component
+const TrashPage = () => {
+  const { settings, setSettings, restoreEntry } = useApp();
+  const moodScale = useMoodScale();
+  const [trashedEntries, setTrashedEntries] = useState<TrashedEntry[]>([]);
+  const [isBusy, setIsBusy] = useState(true);
+
+  const loadTrash = async () => {
+    setIsBusy(true);
+    try {
+      setTrashedEntries(await DataService.getTrash());
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (id: string) => {
+    if (await restoreEntry(id)) {
+      setTrashedEntries(prev => prev.filter(entry => entry.id !== id));
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!confirm('确定要永久删除这条记录吗？此操作无法撤销。')) {
+      return;
+    }
+    if (await DataService.purgeEntry(id)) {
+      setTrashedEntries(prev => prev.filter(entry => entry.id !== id));
+    } else {
+      alert('删除记录失败，请重试');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm('确定要清空回收站吗？此操作无法撤销。')) {
+      return;
+    }
+    if (await DataService.emptyTrash()) {
+      setTrashedEntries([]);
+    } else {
+      alert('清空回收站失败，请重试');
+    }
+  };
+
+  const retentionDays = settings.trashRetentionDays ?? defaultSettings.trashRetentionDays;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className={`text-3xl font-bold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+          回收站
+        </h1>
+        <button
+          onClick={handleEmpty}
+          disabled={isBusy || trashedEntries.length === 0}
+          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          清空回收站
+        </button>
+      </div>
+
+      <div className={`flex items-center gap-2 text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        <span>回收站中的记录将在</span>
+        <select
+          value={retentionDays}
+          onChange={(e) => setSettings(prev => ({ ...prev, trashRetentionDays: Number(e.target.value) }))}
+          className={`px-2 py-1 rounded-lg border ${
+            settings.theme === 'dark'
+              ? 'bg-gray-800 border-gray-600 text-white'
+              : 'bg-white border-gray-300 text-gray-900'
+          } focus:outline-none focus:ring-2 focus:ring-purple-500`}
+        >
+          {[7, 14, 30, 60, 90, 365].map(days => (
+            <option key={days} value={days}>{days} 天</option>
+          ))}
+        </select>
+        <span>后自动永久删除</span>
+      </div>
+
+      {isBusy ? (
+        <div className="text-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : trashedEntries.length === 0 ? (
+        <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
+          <Trash2 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
+          <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            回收站是空的
+          </h3>
+          <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            删除的记录会先放在这里
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {trashedEntries.map(entry => {
+            const mood = findMood(moodScale, entry.mood);
+            return (
+              <div
+                key={entry.id}
+                className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6 flex items-start justify-between gap-4`}
+              >
+                <div className="flex items-start gap-3 min-w-0">
+                  <div className="w-10 h-10 rounded-full flex items-center justify-center text-lg shrink-0" style={{ backgroundColor: mood.color + '20' }}>
+                    {mood.emoji}
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className={`font-semibold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                      {new Date(entry.date).toLocaleDateString('zh-CN')}
+                    </h3>
+                    <p className={`text-sm truncate ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {entry.content}
+                    </p>
+                    <p className={`text-xs mt-1 ${settings.theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                      删除于 {new Date(entry.deletedAt).toLocaleString('zh-CN')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => handleRestore(entry.id)}
+                    className={`px-3 py-1 rounded-lg border text-sm transition-colors ${
+                      settings.theme === 'dark'
+                        ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => handlePurge(entry.id)}
+                    className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                      settings.theme === 'dark'
+                        ? 'text-red-400 hover:bg-red-900/20'
+                        : 'text-red-600 hover:bg-red-50'
+                    }`}
+                  >
+                    永久删除
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Backup Section Component - 自动备份设置与快照列表
+const BackupSection = () => {
+  const { settings, setSettings, loadData, isLoading } = useApp();
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadBackups = async () => {
+    setBackups(await DataService.getBackups());
+  };
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  const handleCreate = async () => {
+    setIsBusy(true);
+    try {
+      if (await DataService.createBackup()) {
+        await loadBackups();
+      } else {
+        alert('创建备份失败，请重试');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownload = async (backup: BackupInfo) => {
+    const data = await DataService.downloadBackup(backup.id);
+    if (!data) {
+      alert('下载备份失败，请重试');
+      return;
+    }
+    const blob = new Blob([data], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `daily-life-backup-${backup.id}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRestore = async (backup: BackupInfo) => {
+    if (!confirm(`确定要恢复到 ${new Date(backup.createdAt).toLocaleString('zh-CN')} 的备份吗？当前数据会先自动备份。`)) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      if (await DataService.restoreBackup(backup.id)) {
+        await Promise.all([loadData(), loadBackups()]);
+        alert('备份恢复成功！');
+      } else {
+        alert('恢复备份失败，请重试');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const updateRetention = (key: keyof BackupRetention, value: string) => {
+    const count = Math.max(0, parseInt(value, 10) || 0);
+    setSettings(prev => ({
+      ...prev,
+      backupRetention: {
+        ...defaultSettings.backupRetention,
+        ...prev.backupRetention,
+        [key]: count
+      }
+    }));
+  };
+
+  const retentionFields: { key: keyof BackupRetention; label: string }[] = [
+    { key: 'daily', label: '每日保留' },
+    { key: 'weekly', label: '每周保留' },
+    { key: 'monthly', label: '每月保留' }
+  ];
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className={`text-xl font-semibold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+          自动备份
+        </h2>
+        <button
+          onClick={handleCreate}
+          disabled={isBusy || isLoading}
+          className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          立即备份
+        </button>
+      </div>
+      <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        服务器每天自动备份一次，并在导入、恢复等操作前自动备份。最近一天内的备份会全部保留。
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        {retentionFields.map(field => (
+          <div key={field.key}>
+            <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              {field.label}
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={settings.backupRetention?.[field.key] ?? defaultSettings.backupRetention[field.key]}
+              onChange={(e) => updateRetention(field.key, e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg border ${
+                settings.theme === 'dark'
+                  ? 'bg-gray-700 border-gray-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-900'
+              } focus:outline-none focus:ring-2 focus:ring-purple-500`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {backups.length === 0 ? (
+        <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+          暂无备份
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {backups.map(backup => (
+            <div
+              key={backup.id}
+              className={`flex items-center justify-between px-4 py-2 rounded-lg border ${
+                settings.theme === 'dark' ? 'border-gray-700' : 'border-gray-200'
+              }`}
+            >
+              <div>
+                <p className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  {new Date(backup.createdAt).toLocaleString('zh-CN')}
+                </p>
+                <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {backupReasonLabels[backup.reason] ?? backup.reason} · {(backup.size / 1024).toFixed(1)} KB{backup.attachments ? ` · ${backup.attachments} 个附件` : ''}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleDownload(backup)}
+                  disabled={isBusy}
+                  title="下载"
+                  className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+                    settings.theme === 'dark'
+                      ? 'hover:bg-gray-700 text-gray-400 hover:text-white'
+                      : 'hover:bg-gray-100 text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleRestore(backup)}
+                  disabled={isBusy}
+                  className={`px-3 py-1 rounded-lg border text-sm transition-colors disabled:opacity-50 ${
+                    settings.theme === 'dark'
+                      ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  恢复
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 标签管理：改名、合并和删除标签，由服务器修改全部日记（包括回收站）
+// Mood Scale Section Component - 编辑心情刻度：表情、名称、颜色、分数和顺序。
+// 删除日记仍在使用的心情时需要选择替换成刻度中的哪个心情，由服务器修改这些日记
+const MoodScaleSection = () => {
+  const { settings, syncState, loadData, isLoading } = useApp();
+  const moodScale = useMoodScale();
+  const moodCounts = useEntryStats()?.moods ?? {};
+  const [draft, setDraft] = useState<MoodOption[]>(moodScale);
+  const [replacements, setReplacements] = useState<Record<string, string>>({});
+  // 服务器报告仍在使用、但日记统计中没有的心情（例如只出现在回收站或历史版本中）
+  const [extraMoods, setExtraMoods] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = syncState.status === 'online' && syncState.pendingCount === 0 && !isLoading && !isSaving;
+
+  useEffect(() => {
+    setDraft(moodScale);
+    setReplacements({});
+    setExtraMoods([]);
+  }, [moodScale]);
+
+  // 不在新刻度中、需要替换的心情：被删除的心情，以及日记中使用的刻度外的心情
+  const removed = [...new Set([...moodScale.map(mood => mood.value), ...Object.keys(moodCounts), ...extraMoods])]
+    .filter(value => !draft.some(mood => mood.value === value));
+  const isDirty = removed.length > 0 || JSON.stringify(draft) !== JSON.stringify(moodScale);
+
+  // 替换成选择的心情，没有选择时替换成分数最接近的心情
+  const replacementFor = (value: string) => {
+    if (draft.some(mood => mood.value === replacements[value])) {
+      return replacements[value];
+    }
+    const { score } = findMood(moodScale, value);
+    return draft.reduce((best, mood) => (Math.abs(mood.score - score) < Math.abs(best.score - score) ? mood : best)).value;
+  };
+
+  const updateMood = (index: number, changes: Partial<MoodOption>) => {
+    setDraft(draft.map((mood, i) => (i === index ? { ...mood, ...changes } : mood)));
+  };
+
+  const moveMood = (index: number, offset: number) => {
+    const next = [...draft];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setDraft(next);
+  };
+
+  const addMood = () => {
+    setDraft([...draft, { value: `mood-${Date.now().toString(36)}`, label: '', emoji: '🙂', color: '#8B5CF6', score: 3 }]);
+  };
+
+  const handleSave = async () => {
+    const moods = draft.map(mood => ({ ...mood, label: mood.label.trim(), emoji: mood.emoji.trim() }));
+    if (moods.some(mood => !mood.label || !mood.emoji || !Number.isFinite(mood.score))) {
+      alert('每种心情都需要填写表情、名称和分数');
+      return;
+    }
+    const affected = removed.reduce((sum, value) => sum + (moodCounts[value] || 0), 0);
+    if (affected > 0 && !confirm(`${affected} 篇日记的心情将按选择替换，修改前服务器会自动备份。确定要保存吗？`)) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await DataService.saveMoodScale(
+        moods,
+        Object.fromEntries(removed.map(value => [value, replacementFor(value)]))
+      );
+      if (result.status === 'in-use') {
+        setExtraMoods(result.moods);
+        alert('回收站或历史版本中还有日记使用了被删除的心情，请为它们选择替换的心情后再保存');
+      } else if (result.status === 'failed') {
+        alert('保存心情刻度失败，请重试');
+      } else {
+        await loadData();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = `px-2 py-1 rounded-lg border text-sm disabled:opacity-50 ${
+    settings.theme === 'dark' ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const buttonClass = `px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+    settings.theme === 'dark' ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+  const iconButtonClass = `p-1 rounded transition-colors disabled:opacity-30 ${
+    settings.theme === 'dark' ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'
+  }`;
+  const hintClass = `text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+      <h2 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        心情刻度
+      </h2>
+      <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        写日记时可选的心情，按这里的顺序显示。分数用于统计平均心情，越大表示心情越好。
+        删除心情时需要选择替换成哪个心情，修改前服务器会自动备份。需要在线且没有待同步的修改。
+      </p>
+
+      <ul className="space-y-2 mb-4">
+        {draft.map((mood, index) => (
+          <li key={mood.value} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={mood.emoji}
+              onChange={(e) => updateMood(index, { emoji: e.target.value })}
+              disabled={!canEdit}
+              maxLength={8}
+              aria-label="表情"
+              className={`${inputClass} w-14 text-center`}
+            />
+            <input
+              type="text"
+              value={mood.label}
+              onChange={(e) => updateMood(index, { label: e.target.value })}
+              disabled={!canEdit}
+              maxLength={20}
+              placeholder="名称"
+              className={`${inputClass} flex-1 min-w-[6rem]`}
+            />
+            <input
+              type="color"
+              value={mood.color.toLowerCase()}
+              onChange={(e) => updateMood(index, { color: e.target.value })}
+              disabled={!canEdit}
+              aria-label="颜色"
+              className="w-9 h-8 rounded cursor-pointer disabled:opacity-50"
+            />
+            <input
+              type="number"
+              value={Number.isFinite(mood.score) ? mood.score : ''}
+              onChange={(e) => updateMood(index, { score: e.target.valueAsNumber })}
+              disabled={!canEdit}
+              step="any"
+              aria-label="分数"
+              className={`${inputClass} w-16`}
+            />
+            <span className={`${hintClass} w-16 text-right`}>{moodCounts[mood.value] || 0} 篇</span>
+            <button onClick={() => moveMood(index, -1)} disabled={!canEdit || index === 0} className={iconButtonClass} title="上移">
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button onClick={() => moveMood(index, 1)} disabled={!canEdit || index === draft.length - 1} className={iconButtonClass} title="下移">
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              disabled={!canEdit || draft.length === 1}
+              className={iconButtonClass}
+              title="删除"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {removed.length > 0 && (
+        <div className="mb-4">
+          <p className={`text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            使用以下心情的日记将替换为：
+          </p>
+          <ul className="space-y-2">
+            {removed.map(value => {
+              const mood = findMood(moodScale, value);
+              return (
+                <li key={value} className="flex flex-wrap items-center gap-2">
+                  <span className={`text-sm flex-1 ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+                    {mood.emoji} {mood.label}
+                    <span className={`${hintClass} ml-2`}>{moodCounts[value] || 0} 篇</span>
+                  </span>
+                  <select
+                    value={replacementFor(value)}
+                    onChange={(e) => setReplacements({ ...replacements, [value]: e.target.value })}
+                    disabled={!canEdit}
+                    className={inputClass}
+                  >
+                    {draft.map(option => (
+                      <option key={option.value} value={option.value}>{option.emoji} {option.label || '（未命名）'}</option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={addMood} disabled={!canEdit} className={`${buttonClass} flex items-center gap-1`}>
+          <Plus className="w-4 h-4" />
+          添加心情
+        </button>
+        <button onClick={() => setDraft(defaultSettings.moodScale)} disabled={!canEdit} className={buttonClass}>
+          恢复默认
+        </button>
+        {isDirty && (
+          <button onClick={() => setDraft(moodScale)} disabled={!canEdit} className={buttonClass}>
+            撤销修改
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={!canEdit || !isDirty}
+          className="ml-auto bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          {isSaving ? <LoadingSpinner /> : <Save className="w-4 h-4" />}
+          保存心情刻度
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const TagManagementSection = () => {
+  const { settings, syncState, loadData, isLoading } = useApp();
+  const [busyTag, setBusyTag] = useState<string | null>(null);
+  const tagCounts = useEntryStats()?.tags ?? [];
+  const canEdit = syncState.status === 'online' && syncState.pendingCount === 0 && !isLoading && busyTag === null;
+
+  const runChange = async (tag: string, change: () => Promise<number | null>) => {
+    setBusyTag(tag);
+    try {
+      if (await change() === null) {
+        alert('修改标签失败，请重试');
+      } else {
+        await loadData();
+      }
+    } finally {
+      setBusyTag(null);
+    }
+  };
+
+  const handleRename = (tag: string) => {
+    const input = prompt(`将标签 #${tag} 改名为：`, tag);
+    if (input === null) return;
+    const name = normalizeTag(input);
+    if (!name) {
+      alert('标签只能包含文字、数字、_、- 和 /，最长 50 个字符');
+      return;
+    }
+    if (name === tag) return;
+    if (tagCounts.some(([other]) => other === name) && !confirm(`标签 #${name} 已存在，要把 #${tag} 合并到 #${name} 吗？`)) {
+      return;
+    }
+    runChange(tag, () => DataService.renameTag(tag, name));
+  };
+
+  const handleMerge = (tag: string, target: string) => {
+    if (!target || !confirm(`确定要把 #${tag} 合并到 #${target} 吗？带有 #${tag} 的日记都会改为 #${target}。`)) {
+      return;
+    }
+    runChange(tag, () => DataService.renameTag(tag, target));
+  };
+
+  const handleDelete = (tag: string, count: number) => {
+    if (!confirm(`确定要从 ${count} 篇日记中删除标签 #${tag} 吗？正文中的 #${tag} 会改为普通文字。`)) {
+      return;
+    }
+    runChange(tag, () => DataService.deleteTag(tag));
+  };
+
+  const buttonClass = `px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+    settings.theme === 'dark' ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+      <h2 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        标签管理
+      </h2>
+      <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        改名、合并或删除标签会修改所有带有该标签的日记和正文中的 #标签，修改前服务器会自动备份。需要在线且没有待同步的修改。
+      </p>
+      {settings.encryption && (
+        <p className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          标签不加密：正文中的 #标签 会以明文保存在日记的标签列表中。启用加密时，正文中的 #标签 由浏览器解密后修改，
+          回收站中日记的正文不会修改。
+        </p>
+      )}
+
+      {tagCounts.length === 0 ? (
+        <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+          还没有标签。在日记中写下 #标签，或在编辑日记时添加标签
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {tagCounts.map(([tag, count]) => (
+            <li key={tag} className="flex flex-wrap items-center gap-2">
+              <TagChip tag={tag} />
+              <span className={`text-sm flex-1 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
+                {count} 篇日记
+              </span>
+              {busyTag === tag && <LoadingSpinner />}
+              <button onClick={() => handleRename(tag)} disabled={!canEdit} className={buttonClass}>
+                改名
+              </button>
+              {tagCounts.length > 1 && (
+                <select
+                  value=""
+                  onChange={(e) => handleMerge(tag, e.target.value)}
+                  disabled={!canEdit}
+                  className={`${buttonClass} border-0`}
+                >
+                  <option value="">合并到…</option>
+                  {tagCounts.filter(([other]) => other !== tag).map(([other]) => (
+                    <option key={other} value={other}>#{other}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => handleDelete(tag, count)}
+                disabled={!canEdit}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                  settings.theme === 'dark' ? 'text-red-400 hover:bg-red-900/20' : 'text-red-600 hover:bg-red-50'
+                }`}
+              >
+                删除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// 账户要求，与服务器的校验一致
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_USERNAME_LENGTH = 32;
+
+// 检查新账户的用户名和密码，返回错误提示
+const validateNewAccount = (username: string, password: string, confirmation: string): string | null => {
+  if (username.trim() === '' || username.trim().length > MAX_USERNAME_LENGTH) {
+    return `用户名需要 1 到 ${MAX_USERNAME_LENGTH} 个字符`;
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `密码至少需要 ${MIN_PASSWORD_LENGTH} 个字符`;
+  }
+  if (password !== confirmation) {
+    return '两次输入的密码不一致';
+  }
+  return null;
+};
+
+// Account Section Component - 显示当前账户，并为家人添加新账户
+const AccountSection = () => {
+  const { settings } = useApp();
+  const user = getSession()?.user;
+  const [isAdding, setIsAdding] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const openForm = (adding: boolean) => {
+    setIsAdding(adding);
+    setUsername('');
+    setPassword('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNewAccount(username, password, confirmation);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await DataService.register(username.trim(), password);
+      if (result.status === 'success') {
+        openForm(false);
+        alert(`已创建账户“${result.user.username}”，退出登录后即可用新账户登录`);
+      } else if (result.status === 'taken') {
+        setError('用户名已被使用');
+      } else if (result.status === 'invalid') {
+        setError('用户名或密码不符合要求');
+      } else {
+        setError('创建失败，请确认已连接服务器');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 rounded-lg border ${
+    settings.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-purple-500`;
+  const labelClassName = `block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`;
+  const secondaryButtonClassName = `px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+    settings.theme === 'dark'
+      ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+      <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        账户
+      </h2>
+      <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        当前登录：{user?.username}。每个账户的日记、设置和备份相互独立。
+      </p>
+
+      {!isAdding ? (
+        <div className="flex gap-2">
+          <button onClick={() => openForm(true)} className={secondaryButtonClassName}>
+            添加账户
+          </button>
+          <button onClick={() => DataService.logout()} className={`${secondaryButtonClassName} flex items-center gap-2`}>
+            <LogOut className="w-4 h-4" />
+            退出登录
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 max-w-sm">
+          <div>
+            <label className={labelClassName}>用户名</label>
+            <input
+              type="text"
+              autoComplete="off"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>密码</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>确认密码</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+            >
+              {isBusy ? '正在创建…' : '创建账户'}
+            </button>
+            <button type="button" onClick={() => openForm(false)} disabled={isBusy} className={secondaryButtonClassName}>
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Encryption Section Component - 启用、更换或关闭日记加密，以及自动锁定时间
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const EncryptionSection = () => {
+  const { settings, setSettings, loadData, isLoading } = useApp();
+  const [mode, setMode] = useState<'enable' | 'change' | 'disable' | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const openForm = (nextMode: typeof mode) => {
+    setMode(nextMode);
+    setCurrentPassphrase('');
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode !== 'enable' && settings.encryption && !await verifyPassphrase(currentPassphrase, settings.encryption)) {
+      setError('当前口令不正确');
+      return;
+    }
+    if (mode !== 'disable') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('两次输入的口令不一致');
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { config, key } = mode === 'disable'
+        ? { config: null, key: null }
+        : await createEncryptionConfig(passphrase);
+      const result = await DataService.changeEncryption(config, key);
+      if (result === 'conflict') {
+        setError('处理期间日记有修改，请重试');
+      } else if (result === 'failed') {
+        setError('操作失败，请确认已连接服务器且没有未同步的修改');
+      } else {
+        setSettings(prev => ({ ...prev, encryption: config }));
+        openForm(null);
+        await loadData();
+        alert(mode === 'disable' ? '已关闭加密' : '日记已加密，请牢记口令，忘记口令将无法恢复日记');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 rounded-lg border ${
+    settings.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-purple-500`;
+  const labelClassName = `block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`;
+  const secondaryButtonClassName = `px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+    settings.theme === 'dark'
+      ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+  }`;
+
+  return (
+    <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+      <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        加密
+      </h2>
+      <p className={`text-sm mb-4 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        {settings.encryption
+          ? '日记内容已在浏览器中加密，服务器和备份中只保存密文。日期、心情、情绪和标签（包括正文中的 #标签）不加密。启用加密后，搜索在浏览器中进行。'
+          : '启用后，日记内容在浏览器中用口令加密，服务器和备份中只保存密文；日期、心情、情绪和标签（包括正文中的 #标签）不加密。忘记口令将无法恢复日记。'}
+      </p>
+
+      {settings.encryption && (
+        <div className="mb-4">
+          <label className={labelClassName}>
+            无操作自动锁定（分钟，0 表示不自动锁定）
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={settings.autoLockMinutes ?? defaultSettings.autoLockMinutes}
+            onChange={(e) => setSettings(prev => ({ ...prev, autoLockMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+            className={`sm:w-40 ${inputClassName}`}
+          />
+        </div>
+      )}
+
+      {mode === null ? (
+        <div className="flex gap-2">
+          {settings.encryption ? (
+            <>
+              <button onClick={() => openForm('change')} disabled={isLoading} className={secondaryButtonClassName}>
+                更换口令
+              </button>
+              <button onClick={() => openForm('disable')} disabled={isLoading} className={secondaryButtonClassName}>
+                关闭加密
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => openForm('enable')}
+              disabled={isLoading}
+              className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4" />
+              启用加密
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3 max-w-sm">
+          {mode !== 'enable' && (
+            <div>
+              <label className={labelClassName}>当前口令</label>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {mode !== 'disable' && (
+            <>
+              <div>
+                <label className={labelClassName}>{mode === 'change' ? '新口令' : '口令'}</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>确认口令</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+          {/* 服务器没有口令，无法重新加密旧快照，只能删除 */}
+          <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+            完成后现有的全部备份快照和 .bak 文件都会被删除，只保留一份新的快照。如需保留旧的数据，请先在"数据管理"中导出数据。
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+            >
+              {isBusy ? '正在处理…' : mode === 'enable' ? '启用加密' : mode === 'change' ? '更换口令' : '关闭加密'}
+            </button>
+            <button type="button" onClick={() => openForm(null)} disabled={isBusy} className={secondaryButtonClassName}>
+              取消
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+// Import Preview Component - 导入前显示比较结果并选择导入策略。
+// 心情的检查与策略有关（替换全部时按文件中的心情刻度），切换策略后重新预览
+const DEFAULT_IMPORT_STRATEGY: ImportStrategy = 'merge';
+
+const importStrategyOptions: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'merge', label: '合并', description: '按 ID 合并，内容不同时保留较新的一条，保留当前设置' },
+  { value: 'append', label: '追加为副本', description: '把新的和内容不同的日记作为副本追加，不修改现有日记和设置' },
+  { value: 'replace', label: '替换全部', description: '用导入的日记和设置替换当前的全部数据' }
+];
+
+const ImportPreviewPanel = ({ fileName, preview, isBusy, onStrategyChange, onConfirm, onCancel }: {
+  fileName: string;
+  preview: ImportPreview;
+  isBusy: boolean;
+  onStrategyChange: (strategy: ImportStrategy) => void;
+  onConfirm: (strategy: ImportStrategy) => void;
+  onCancel: () => void;
+}) => {
+  const { settings } = useApp();
+  const [strategy, setStrategy] = useState<ImportStrategy>(DEFAULT_IMPORT_STRATEGY);
+  const settingsBlocked = strategy === 'replace' && preview.settings.included && !preview.settings.valid;
+
+  const counts: { label: string; value: number; color: string }[] = [
+    { label: '新增', value: preview.entries.new, color: 'text-green-500' },
+    { label: '更新', value: preview.entries.updated, color: 'text-blue-500' },
+    { label: '较旧', value: preview.entries.outdated, color: 'text-yellow-500' },
+    { label: '相同', value: preview.entries.identical, color: settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-500' },
+    { label: 'ID 冲突', value: preview.entries.clash, color: 'text-orange-500' },
+    { label: '无效', value: preview.entries.invalid, color: 'text-red-500' }
+  ];
+
+  return (
+    <div className={`mt-4 p-4 rounded-lg border space-y-4 ${
+      settings.theme === 'dark' ? 'border-gray-600 bg-gray-900/40' : 'border-gray-200 bg-gray-50'
+    }`}>
+      <div>
+        <p className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+          {fileName}
+        </p>
+        <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+          共 {preview.total} 篇日记
+          {preview.exportDate && ` · 导出于 ${new Date(preview.exportDate).toLocaleString('zh-CN')}`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-6 gap-2 text-center">
+        {counts.map(count => (
+          <div key={count.label}>
+            <p className={`text-2xl font-bold ${count.color}`}>{count.value}</p>
+            <p className={`text-xs ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>{count.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {preview.invalidEntries.length > 0 && (
+        <div className="text-sm text-red-500 space-y-1">
+          <p>以下日记无效，导入时会被跳过：</p>
+          <ul className="list-disc pl-5">
+            {preview.invalidEntries.map(item => (
+              <li key={item.index}>
+                第 {item.index + 1} 篇{item.id ? `（${item.id}）` : ''}：{item.error}
+              </li>
+            ))}
+          </ul>
+          {preview.entries.invalid > preview.invalidEntries.length && (
+            <p>……还有 {preview.entries.invalid - preview.invalidEntries.length} 篇</p>
+          )}
+        </div>
+      )}
+
+      {preview.entries.clash > 0 && (
+        <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+          有 {preview.entries.clash} 篇日记与现有日记 ID 相同但内容无关，合并或追加时会以新的 ID 保留两篇
+        </p>
+      )}
+
+      {preview.settings.included && !preview.settings.valid && (
+        <p className="text-sm text-red-500">
+          文件中的设置无效（{preview.settings.errors.join('、')}），无法使用"替换全部"
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {importStrategyOptions.map(option => (
+          <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="import-strategy"
+              value={option.value}
+              checked={strategy === option.value}
+              onChange={() => {
+                setStrategy(option.value);
+                onStrategyChange(option.value);
+              }}
+              className="mt-1"
+            />
+            <span>
+              <span className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                {option.label}
+              </span>
+              <span className={`block text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+                {option.description}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onConfirm(strategy)}
+          disabled={isBusy || settingsBlocked}
+          className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4" />
+          确认导入
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isBusy}
+          className={`px-4 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+            settings.theme === 'dark'
+              ? 'border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          取消
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Settings Page Component
+// 导出为 Markdown 归档或静态网页：选择日期范围（按本地日期，含首尾两天）和心情后下载 .zip
+const archiveFormats: { value: ArchiveFormat; label: string; description: string }[] = [
+  { value: 'html', label: '静态网页', description: '带月历和心情颜色的网页，解压后打开 index.html 即可离线浏览' },
+  { value: 'markdown', label: 'Markdown 文件', description: '每篇日记一个 .md 文件，附带按月份整理的目录 index.md' }
+];
 
-  const moodStats = moodOptions.map(mood => ({
-    ...mood,
-    count: moodCounts[mood.value] || 0,
-    percentage: entries.length > 0 ? ((moodCounts[mood.value] || 0) / entries.length * 100) : 0
-  }));
+const ArchiveExportPanel = () => {
+  const { settings, isLoading } = useApp();
+  const moodScale = useMoodScale();
+  const [format, setFormat] = useState<ArchiveFormat>('html');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [moods, setMoods] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
 
-  const recentMoods = entries.slice(0, 10).map(entry => ({
-    ...entry,
-    mood: moodOptions.find(m => m.value === entry.mood)!
-  }));
+  const toggleMood = (value: string) => {
+    setMoods(prev => prev.includes(value) ? prev.filter(mood => mood !== value) : [...prev, value]);
+  };
+
+  const handleExport = async () => {
+    if (from && to && from > to) {
+      alert('开始日期不能晚于结束日期');
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const blob = await DataService.exportArchive(format, {
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+        moods: moods.length > 0 ? moods : undefined
+      });
+      if (!blob) {
+        alert('导出失败，请重试');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${format === 'html' ? 'daily-life-site' : 'daily-life-markdown'}-${new Date().toISOString().split('T')[0]}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border ${
+    settings.theme === 'dark'
+      ? 'bg-gray-700 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-purple-500`;
+  const optionClass = (selected: boolean) => `px-3 py-2 rounded-lg border text-sm transition-colors disabled:opacity-50 ${
+    selected
+      ? 'border-purple-500 bg-purple-50 text-purple-700'
+      : settings.theme === 'dark'
+        ? 'border-gray-600 bg-gray-700 text-gray-300 hover:bg-gray-600'
+        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+  }`;
 
   return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <h1 className={`text-3xl font-bold ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-          心情追踪
-        </h1>
+    <div>
+      <h3 className={`font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+        导出为归档
+      </h3>
+      <p className={`text-sm mb-3 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        {archiveFormats.find(option => option.value === format)?.description}
+      </p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {archiveFormats.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setFormat(option.value)}
+            disabled={isExporting}
+            className={optionClass(format === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
       </div>
-
-      {isLoading ? (
-        <div className="text-center py-8">
-          <LoadingSpinner />
-          <p className={`mt-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-            正在加载数据...
-          </p>
-        </div>
-      ) : entries.length === 0 ? (
-        <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-12 text-center`}>
-          <BarChart3 className={`w-16 h-16 mx-auto mb-4 ${settings.theme === 'dark' ? 'text-gray-600' : 'text-gray-400'}`} />
-          <h3 className={`text-xl font-semibold mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-            还没有数据
-          </h3>
-          <p className={`${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-            开始记录日记来追踪你的心情变化
-          </p>
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <div>
+          <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            开始日期
+          </label>
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
         </div>
-      ) : (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Mood Statistics */}
-          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
-            <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-              心情统计
-            </h2>
-            <div className="space-y-3">
-              {moodStats.map(mood => (
-                <div key={mood.value} className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm" style={{ backgroundColor: mood.color + '20' }}>
-                    {mood.emoji}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex justify-between items-center mb-1">
-                      <span className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-                        {mood.label}
-                      </span>
-                      <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {mood.count}次 ({mood.percentage.toFixed(1)}%)
-                      </span>
-                    </div>
-                    <div className={`h-2 rounded-full ${settings.theme === 'dark' ? 'bg-gray-700' : 'bg-gray-200'}`}>
-                      <div
-                        className="h-2 rounded-full transition-all duration-300"
-                        style={{ 
-                          width: `${mood.percentage}%`,
-                          backgroundColor: mood.color
-                        }}
-                      />
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          {/* Recent Moods */}
-          <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
-            <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-              最近心情
-            </h2>
-            <div className="space-y-3">
-              {recentMoods.map(entry => (
-                <div key={entry.id} className="flex items-center gap-3">
-                  <div className="w-8 h-8 rounded-full flex items-center justify-center text-sm" style={{ backgroundColor: entry.mood.color + '20' }}>
-                    {entry.mood.emoji}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex justify-between items-center">
-                      <span className={`font-medium ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
-                        {entry.mood.label}
-                      </span>
-                      <span className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {new Date(entry.date).toLocaleDateString('zh-CN')}
-                      </span>
-                    </div>
-                    <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'} truncate`}>
-                      {entry.content}
-                    </p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
+        <div>
+          <label className={`block text-sm font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            结束日期
+          </label>
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
         </div>
-      )}
+      </div>
+      <p className={`text-sm mb-2 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+        心情（不选则导出全部心情）
+      </p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {moodScale.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggleMood(option.value)}
+            disabled={isExporting}
+            className={optionClass(moods.includes(option.value))}
+          >
+            {option.emoji} {option.label}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={handleExport}
+        disabled={isLoading || isExporting}
+        className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors flex items-center gap-2 disabled:opacity-50"
+      >
+        {isExporting ? <LoadingSpinner /> : <Download className="w-4 h-4" />}
+        导出归档
+      </button>
     </div>
   );
 };
 
-// Settings Page Component
 const SettingsPage = () => {
   const { settings, setSettings, exportData, importData, isLoading } = useApp();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: string; preview: ImportPreview } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   const handleExport = async () => {
     try {
@@ -1114,8 +4073,53 @@ const SettingsPage = () => {
     }
   };
 
+  // 选择文件后先向服务器请求预览，由用户确认导入策略后再导入
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    importData(event);
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      const result = e.target?.result;
+      if (typeof result !== 'string') {
+        return;
+      }
+      const preview = await DataService.previewImport(result, DEFAULT_IMPORT_STRATEGY);
+      if (preview) {
+        setPendingImport({ fileName: file.name, data: result, preview });
+      } else {
+        alert('无法读取导入文件，请检查文件格式');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleStrategyChange = async (strategy: ImportStrategy) => {
+    if (!pendingImport) {
+      return;
+    }
+    const { data } = pendingImport;
+    const preview = await DataService.previewImport(data, strategy);
+    if (preview) {
+      // 等待期间可能已选择了其他文件
+      setPendingImport(prev => (prev?.data === data ? { ...prev, preview } : prev));
+    }
+  };
+
+  const handleConfirmImport = async (strategy: ImportStrategy) => {
+    if (!pendingImport) {
+      return;
+    }
+    setIsImporting(true);
+    try {
+      if (await importData(pendingImport.data, strategy)) {
+        setPendingImport(null);
+      }
+    } finally {
+      setIsImporting(false);
+    }
   };
 
   return (
@@ -1279,6 +4283,63 @@ const SettingsPage = () => {
         </div>
       </div>
 
+      {/* Saved Searches */}
+      <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
+        <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+          保存的搜索
+        </h2>
+        {(settings.savedSearches ?? []).length === 0 ? (
+          <p className={`text-sm ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
+            还没有保存的搜索，可在日记本页面输入搜索语句后保存
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {(settings.savedSearches ?? []).map(search => {
+              const updateSearch = (updates: Partial<SavedSearch>) => setSettings(prev => ({
+                ...prev,
+                savedSearches: (prev.savedSearches ?? []).map(item => item.id === search.id ? { ...item, ...updates } : item)
+              }));
+              const inputClassName = `px-3 py-2 rounded-lg border ${
+                settings.theme === 'dark'
+                  ? 'bg-gray-700 border-gray-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-900'
+              } focus:outline-none focus:ring-2 focus:ring-purple-500`;
+              return (
+                <div key={search.id} className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    aria-label="名称"
+                    value={search.name}
+                    onChange={(e) => updateSearch({ name: e.target.value })}
+                    className={`sm:w-40 ${inputClassName}`}
+                  />
+                  <input
+                    type="text"
+                    aria-label="搜索语句"
+                    value={search.query}
+                    onChange={(e) => updateSearch({ query: e.target.value })}
+                    className={`flex-1 min-w-0 font-mono text-sm ${inputClassName}`}
+                  />
+                  <button
+                    onClick={() => setSettings(prev => ({
+                      ...prev,
+                      savedSearches: (prev.savedSearches ?? []).filter(item => item.id !== search.id)
+                    }))}
+                    className={`p-2 rounded-lg transition-colors ${
+                      settings.theme === 'dark'
+                        ? 'hover:bg-red-900/20 text-gray-400 hover:text-red-400'
+                        : 'hover:bg-red-50 text-gray-600 hover:text-red-600'
+                    }`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Data Management */}
       <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
         <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
@@ -1301,13 +4362,15 @@ const SettingsPage = () => {
               导出数据
             </button>
           </div>
+
+          <ArchiveExportPanel />
           
           <div>
             <h3 className={`font-medium mb-2 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
               导入数据
             </h3>
             <p className={`text-sm mb-3 ${settings.theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>
-              从JSON文件导入日记数据
+              从JSON文件导入日记数据，导入前会先显示与现有数据的比较结果
             </p>
             <input
               ref={fileInputRef}
@@ -1329,10 +4392,31 @@ const SettingsPage = () => {
               {isLoading ? <LoadingSpinner /> : <Upload className="w-4 h-4" />}
               导入数据
             </button>
+            {pendingImport && (
+              <ImportPreviewPanel
+                fileName={pendingImport.fileName}
+                preview={pendingImport.preview}
+                isBusy={isImporting}
+                onStrategyChange={handleStrategyChange}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
           </div>
         </div>
       </div>
 
+      <MoodScaleSection />
+
+      <TagManagementSection />
+
+      <AccountSection />
+
+      {/* Backups */}
+      <EncryptionSection />
+
+      <BackupSection />
+
       {/* About */}
       <div className={`${settings.theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} rounded-2xl border p-6`}>
         <h2 className={`text-xl font-semibold mb-4 ${settings.theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
@@ -1360,6 +4444,8 @@ const App = () => {
         return <CalendarPage />;
       case 'mood':
         return <MoodTrackerPage />;
+      case 'trash':
+        return <TrashPage />;
       case 'settings':
         return <SettingsPage />;
       default:
@@ -1375,6 +4461,7 @@ const App = () => {
           <Header />
           <main className="flex-1 p-6">
             <div className="max-w-4xl mx-auto">
+              <DataIssueBanner />
               {renderPage()}
             </div>
           </main>
@@ -1393,12 +4480,265 @@ const App = () => {
   );
 };
 
+// Lock Screen Component - 输入口令解锁加密的日记
+const LockScreen = ({ encryption, theme }: { encryption: EncryptionConfig; theme: SettingsType['theme'] }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const key = await verifyPassphrase(passphrase, encryption);
+      if (key) {
+        setSessionKey(key);
+      } else {
+        setError('口令不正确');
+        setPassphrase('');
+      }
+    } catch (error) {
+      console.error('Error unlocking:', error);
+      setError('解锁失败，请重试');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className={`min-h-screen flex items-center justify-center p-6 ${theme === 'dark' ? 'bg-gray-900' : 'bg-gray-50'}`}>
+      <form
+        onSubmit={handleUnlock}
+        className={`w-full max-w-sm rounded-2xl border p-8 ${theme === 'dark' ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}
+      >
+        <div className="flex flex-col items-center gap-3 mb-6">
+          <Lock className={`w-10 h-10 ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`} />
+          <h1 className={`text-xl font-semibold ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>日记已锁定</h1>
+          <p className={`text-sm ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`}>输入口令以解锁</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          aria-label="口令"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={`w-full px-3 py-2 rounded-lg border mb-2 ${
+            theme === 'dark'
+              ? 'bg-gray-700 border-gray-600 text-white'
+              : 'bg-white border-gray-300 text-gray-900'
+          } focus:outline-none focus:ring-2 focus:ring-purple-500`}
+        />
+        {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full mt-2 bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+        >
+          {isUnlocking ? '正在解锁…' : '解锁'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+// Encryption Gate Component - 启用加密时先显示锁定界面，解锁后才加载数据；
+// 锁定时卸载整个应用，内存中解密后的日记随之丢弃
+const EncryptionGate = ({ children }: { children: React.ReactNode }) => {
+  const [settings, setSettings] = useState<SettingsType | null>(null);
+  const [isUnlocked, setIsUnlocked] = useState(getSessionKey() !== null);
+
+  useEffect(() => {
+    DataService.getSettings().then(setSettings);
+    return subscribeToLock(unlocked => {
+      if (unlocked) {
+        setIsUnlocked(true);
+        return;
+      }
+      // 锁定或关闭加密后重新读取设置，关闭加密时无需再解锁
+      DataService.getSettings().then(latest => {
+        setSettings(latest);
+        setIsUnlocked(false);
+      });
+    });
+  }, []);
+
+  if (!settings) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+  if (settings.encryption && !isUnlocked) {
+    return <LockScreen encryption={settings.encryption} theme={settings.theme} />;
+  }
+  return <>{children}</>;
+};
+
+// Login Screen Component - 登录；服务器上还没有账户时创建第一个账户
+const LoginScreen = () => {
+  const [hasUsers, setHasUsers] = useState<boolean | null>(null);
+  const [isUnreachable, setIsUnreachable] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadStatus = async () => {
+    setIsUnreachable(false);
+    const status = await DataService.getAuthStatus();
+    if (status) {
+      setHasUsers(status.hasUsers);
+    } else {
+      setIsUnreachable(true);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasUsers) {
+      const validationError = validateNewAccount(username, password, confirmation);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (!hasUsers) {
+        const registered = await DataService.register(username.trim(), password);
+        if (registered.status !== 'success') {
+          setError(registered.status === 'failed' ? '创建失败，请确认已连接服务器' : '无法创建账户，请刷新页面后重试');
+          return;
+        }
+      }
+      const result = await DataService.login(username.trim(), password);
+      if (result.status === 'invalid') {
+        setError('用户名或密码不正确');
+        setPassword('');
+      } else if (result.status === 'failed') {
+        setError('登录失败，请确认已连接服务器');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-lg border bg-white border-gray-300 text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  if (hasUsers === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+        {isUnreachable ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-600">无法连接服务器，请确认本地服务器已启动</p>
+            <button
+              onClick={loadStatus}
+              className="bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors"
+            >
+              重试
+            </button>
+          </div>
+        ) : (
+          <LoadingSpinner />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-gray-50">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-2xl border p-8 bg-white border-gray-200 space-y-3">
+        <div className="flex flex-col items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-amber-500 rounded-lg flex items-center justify-center">
+            <Edit3 className="w-5 h-5 text-white" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">{hasUsers ? '登录' : '创建账户'}</h1>
+          {!hasUsers && (
+            <p className="text-sm text-center text-gray-600">这是第一个账户，已有的日记和设置将归入这个账户</p>
+          )}
+        </div>
+        <input
+          type="text"
+          autoFocus
+          autoComplete="username"
+          placeholder="用户名"
+          aria-label="用户名"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          autoComplete={hasUsers ? 'current-password' : 'new-password'}
+          placeholder="密码"
+          aria-label="密码"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClassName}
+        />
+        {!hasUsers && (
+          <input
+            type="password"
+            autoComplete="new-password"
+            placeholder="确认密码"
+            aria-label="确认密码"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className={inputClassName}
+          />
+        )}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={isBusy || !username || !password}
+          className="w-full mt-2 bg-gray-900 text-white px-4 py-2 rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+        >
+          {isBusy ? '请稍候…' : hasUsers ? '登录' : '创建并登录'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+// Auth Gate Component - 未登录时显示登录界面；切换账户时重新挂载整个应用，
+// 避免上一个账户的数据和解锁状态留在内存中
+const AuthGate = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<AuthSession | null>(getSession());
+
+  useEffect(() => subscribeToSession(setSession), []);
+
+  useEffect(() => {
+    if (!session) {
+      lockSession();
+    }
+  }, [session]);
+
+  if (!session) {
+    return <LoginScreen />;
+  }
+  return <React.Fragment key={session.user.id}>{children}</React.Fragment>;
+};
+
 // Root Component
 const DailyLifeRecorder = () => {
   return (
-    <AppProvider>
-      <App />
-    </AppProvider>
+    <AuthGate>
+      <EncryptionGate>
+        <AppProvider>
+          <App />
+        </AppProvider>
+      </EncryptionGate>
+    </AuthGate>
   );
 };
 
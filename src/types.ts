@@ -6,6 +6,159 @@ export interface Entry {
   date: string;
   content: string;
   mood: string;
+  revision?: number;   // 修订号，每次更新加一，用于检测并发修改
+  updatedAt?: string;
+  attachments?: Attachment[];
+  // 标签（不带 #），正文中的 #标签 保存时自动加入
+  tags?: string[];
+  // 主要心情 mood 之外的次要情绪，从情绪轮中选择
+  emotions?: EntryEmotion[];
+}
+
+// 日记的次要情绪：intensity 为 1 到 5 的强度
+export interface EntryEmotion {
+  name: string;
+  intensity: number;
+}
+
+// 日记的附件（照片、语音）。文件保存在服务器上，通过 /api/attachments/<id> 读取，写入后不再修改
+export interface Attachment {
+  id: string;
+  kind: 'image' | 'audio';
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  // 语音的时长（秒）
+  duration?: number;
+}
+
+// 日记查询条件：from / to 为 ISO 日期时间，包含两端；moods 为空表示不限心情；tags 中的标签都必须有；
+// exclude 中的词都不能出现；minWords / maxWords 为字数范围，包含两端
+export interface EntryFilter {
+  from?: string;
+  to?: string;
+  moods?: string[];
+  tags?: string[];
+  q?: string;
+  exclude?: string[];
+  minWords?: number;
+  maxWords?: number;
+}
+
+// 保存的搜索，query 为日记本搜索框中的搜索语句
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// 分页查询的一页结果，nextCursor 为 null 表示没有更多日记
+export interface EntryPage {
+  entries: Entry[];
+  nextCursor: string | null;
+}
+
+// 搜索结果的摘要，highlights 为 text 中需要高亮的 [开始, 结束) 位置
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface SearchHit {
+  entry: Entry;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+// 全文搜索的一页结果，total 为匹配的总数
+export interface SearchResult {
+  total: number;
+  hits: SearchHit[];
+}
+
+export interface EmotionStat {
+  name: string;
+  count: number;
+  // 各篇日记中强度的合计，统计按它加权
+  totalIntensity: number;
+}
+
+export interface EmotionPair {
+  names: [string, string];
+  count: number;
+  // 两种情绪一起出现时强度较弱一方的合计，一强一弱的组合权重较低
+  weight: number;
+}
+
+// 日记统计：total 为日记数，moods 为各心情的日记数，tags 为各标签的日记数（按日记数从多到少排列），
+// emotions 和 emotionPairs 为情绪的统计和常一起出现的情绪组合
+export interface EntryStats {
+  total: number;
+  moods: Record<string, number>;
+  tags: [string, number][];
+  emotions: EmotionStat[];
+  emotionPairs: EmotionPair[];
+}
+
+// 服务器推送的日记变化（日记在服务器以外被修改，例如编辑了 Markdown 文件）
+export interface EntryChange {
+  type: 'create' | 'update' | 'delete';
+  id: string;
+}
+
+// 页面中日记的一次变化：put 为新建、修改或恢复后的日记，patch 为离线时只保存在本地的修改，delete 为删除的日记
+export type EntryUpdate =
+  | { type: 'put'; entry: Entry }
+  | { type: 'patch'; id: string; updates: Partial<Entry> }
+  | { type: 'delete'; id: string };
+
+// 日记变化的通知：每次变化 version 加一。update 为 null 表示无法确定变化了哪些日记（例如重新加载、导入），
+// 已加载的日记需要重新读取
+export interface EntriesChange {
+  version: number;
+  update: EntryUpdate | null;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+// 登录后的会话，token 随每个请求发送
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+}
+
+// 登录或创建账户的结果：invalid 表示用户名或密码不正确（或不符合要求），taken 表示用户名已被使用
+export type AuthResult =
+  | { status: 'success'; user: AuthUser }
+  | { status: 'invalid' }
+  | { status: 'taken' }
+  | { status: 'failed' };
+
+// 更新日记的结果：conflict 表示记录已在别处被修改，附带服务器上的最新版本；
+// queued 表示离线时已保存在本地，等待同步
+export type UpdateEntryResult =
+  | { status: 'saved'; entry: Entry }
+  | { status: 'queued' }
+  | { status: 'conflict'; current: Entry }
+  | { status: 'failed' };
+
+// 回收站中的日记条目
+export interface TrashedEntry extends Entry {
+  deletedAt: string;
+}
+
+// 日记条目的历史版本（更新前的内容和心情）
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  savedAt: string;
+  content: string;
+  mood: string;
 }
 
 export interface Settings {
@@ -19,25 +172,120 @@ export interface Settings {
     heroSubtitle: string;
     startButtonText: string;
   };
+  backupRetention: BackupRetention;
+  trashRetentionDays: number;
+  savedSearches: SavedSearch[];
+  // 心情刻度，按显示顺序排列；只能通过 DataService.saveMoodScale 修改
+  moodScale: MoodOption[];
+  // 加密设置，null 表示未启用加密
+  encryption: EncryptionConfig | null;
+  // 无操作多少分钟后自动锁定，0 表示不自动锁定
+  autoLockMinutes: number;
+}
+
+// 心情刻度中的一种心情：value 保存在日记中，score 用于统计平均心情（越大越好）
+export interface MoodOption {
+  value: string;
+  label: string;
+  emoji: string;
+  color: string;
+  score: number;
+}
+
+// 保存心情刻度的结果：in-use 表示日记仍在使用 moods 中这些刻度里没有的心情，需要指定替换
+export type SaveMoodScaleResult =
+  | { status: 'saved'; updated: number }
+  | { status: 'in-use'; moods: string[] }
+  | { status: 'failed' };
+
+// 日记加密的参数：PBKDF2 的盐（base64）和迭代次数，以及用于校验口令的密文
+export interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+// 自动备份的保留策略：每天、每周、每月各保留多少份快照
+export interface BackupRetention {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BackupInfo {
+  id: string;
+  createdAt: string;
+  reason: 'scheduled' | 'manual' | 'pre-save' | 'pre-import' | 'pre-restore' | 'pre-migration' | 'pre-tags' | 'pre-moods' | 'encryption';
+  files: string[];
+  size: number;
+  attachments?: number;  // 快照中的附件数
+}
+
+// 导入策略：替换全部数据、按 id 合并（保留较新的一条）、作为副本追加
+export type ImportStrategy = 'replace' | 'merge' | 'append';
+
+// 归档导出的格式：Markdown 文件或可离线浏览的静态网页，都打包为 .zip
+export type ArchiveFormat = 'markdown' | 'html';
+
+// 导入前的预览：导入文件中的日记与现有日记逐条比较的结果
+export interface ImportPreview {
+  schemaVersion: number;
+  exportDate?: string;
+  total: number;
+  entries: {
+    new: number;
+    updated: number;
+    outdated: number;
+    identical: number;
+    clash: number;
+    invalid: number;
+  };
+  invalidEntries: { index: number; id?: string; error: string }[];
+  settings: {
+    included: boolean;
+    valid: boolean;
+    errors: string[];
+  };
+}
+
+// 与服务器的连接和离线修改的同步状态
+export interface SyncState {
+  status: 'online' | 'offline' | 'syncing';
+  pendingCount: number;
+}
+
+// 服务器检测到的数据文件异常
+export interface DataIssue {
+  file: string;
+  status: 'corrupted' | 'recovered';
+  message: string;
+  quarantinedAs: string;
+  recoveredFrom?: string;
+  detectedAt: string;
 }
 
 export interface AppContextType {
-  entries: Entry[];
+  entriesChange: EntriesChange;
   settings: Settings;
   currentPage: string;
   selectedDate: Date;
   showModal: string | null;
   editingEntry: Entry | null;
   isLoading: boolean;
+  dataIssues: DataIssue[];
+  syncState: SyncState;
   setCurrentPage: (page: string) => void;
   setSelectedDate: (date: Date) => void;
   setShowModal: (modal: string | null) => void;
   setEditingEntry: (entry: Entry | null) => void;
   addEntry: (entry: Partial<Entry>) => Promise<void>;
-  updateEntry: (id: string, updates: Partial<Entry>) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<Entry>, expectedRevision?: number) => Promise<UpdateEntryResult>;
   deleteEntry: (id: string) => Promise<void>;
+  restoreEntry: (id: string) => Promise<boolean>;
   exportData: () => Promise<void>;
-  importData: (event: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
+  importData: (data: string, strategy: ImportStrategy) => Promise<boolean>;
   setSettings: React.Dispatch<React.SetStateAction<Settings>>;
   loadData: () => Promise<void>;
+  resetDataFile: (file: string) => Promise<void>;
+  dismissDataIssues: () => Promise<void>;
 } 
\ No newline at end of file
@@ -0,0 +1,63 @@
+// 情绪轮 - 参考 Plutchik 情绪轮的八种基本情绪，每种基本情绪下再分三种具体的情绪。
+// 日记的 emotions 中只保存情绪名称和强度，不在情绪轮中的名称用灰色显示
+import { EmotionPair, EmotionStat, Entry } from '../types';
+
+export interface EmotionFamily {
+  name: string;
+  color: string;
+  emotions: string[];
+}
+
+export const EMOTION_WHEEL: EmotionFamily[] = [
+  { name: '喜悦', color: '#FACC15', emotions: ['开心', '满足', '自豪'] },
+  { name: '信任', color: '#84CC16', emotions: ['感激', '安心', '亲近'] },
+  { name: '恐惧', color: '#10B981', emotions: ['焦虑', '紧张', '害怕'] },
+  { name: '惊讶', color: '#06B6D4', emotions: ['惊喜', '困惑', '震惊'] },
+  { name: '悲伤', color: '#3B82F6', emotions: ['失落', '孤独', '委屈'] },
+  { name: '厌恶', color: '#8B5CF6', emotions: ['厌倦', '反感', '尴尬'] },
+  { name: '愤怒', color: '#EF4444', emotions: ['烦躁', '生气', '不满'] },
+  { name: '期待', color: '#F97316', emotions: ['兴奋', '好奇', '希望'] }
+];
+
+export const MAX_EMOTION_INTENSITY = 5;
+export const DEFAULT_EMOTION_INTENSITY = 3;
+
+const EMOTION_COLORS = new Map(EMOTION_WHEEL.flatMap(family => (
+  [family.name, ...family.emotions].map(name => [name, family.color] as const)
+)));
+
+export function emotionColor(name: string): string {
+  return EMOTION_COLORS.get(name) ?? '#9CA3AF';
+}
+
+// 各情绪出现的次数和强度合计，按强度合计从大到小排列，相同时按次数排列
+export function summarizeEmotions(entries: Entry[]): EmotionStat[] {
+  const stats = new Map<string, EmotionStat>();
+  for (const entry of entries) {
+    for (const { name, intensity } of entry.emotions ?? []) {
+      const stat = stats.get(name) ?? { name, count: 0, totalIntensity: 0 };
+      stat.count++;
+      stat.totalIntensity += intensity;
+      stats.set(name, stat);
+    }
+  }
+  return [...stats.values()].sort((a, b) => b.totalIntensity - a.totalIntensity || b.count - a.count);
+}
+
+// 同一篇日记中一起出现的情绪组合，按加权次数从多到少排列
+export function countEmotionPairs(entries: Entry[]): EmotionPair[] {
+  const pairs = new Map<string, EmotionPair>();
+  for (const entry of entries) {
+    const emotions = [...(entry.emotions ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    emotions.forEach((first, i) => {
+      for (const second of emotions.slice(i + 1)) {
+        const key = JSON.stringify([first.name, second.name]);
+        const pair = pairs.get(key) ?? { names: [first.name, second.name], count: 0, weight: 0 };
+        pair.count++;
+        pair.weight += Math.min(first.intensity, second.intensity);
+        pairs.set(key, pair);
+      }
+    });
+  }
+  return [...pairs.values()].sort((a, b) => b.weight - a.weight || b.count - a.count);
+}
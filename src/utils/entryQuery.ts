@@ -0,0 +1,91 @@
+// 日记的排序和筛选 - 与服务器 /api/entries 的查询规则一致，用于离线查询、加密日记的查询和更新已加载的列表
+import { Entry, EntryFilter, EntryPage, SearchResult, SearchSnippet } from '../types';
+
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// 日记的字数：中日韩文字每个字算一个，其他文字按单词计，标点和 Markdown 符号不计
+export function countWords(content: string): number {
+  const cjkCount = (content.match(CJK_CHARACTER) || []).length;
+  const wordCount = (content.replace(CJK_CHARACTER, ' ').match(WORD) || []).length;
+  return cjkCount + wordCount;
+}
+
+const containsText = (content: string, text: string) => content.toLowerCase().includes(text.toLowerCase());
+
+// 按日期倒序，日期相同时 id 较大（较新）的在前
+export function compareEntries(a: Pick<Entry, 'date' | 'id'>, b: Pick<Entry, 'date' | 'id'>): number {
+  return new Date(b.date).getTime() - new Date(a.date).getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+export function matchesEntryFilter(entry: Entry, { from, to, moods, tags, q, exclude, minWords, maxWords }: EntryFilter): boolean {
+  const time = new Date(entry.date).getTime();
+  if ((from && time < new Date(from).getTime()) || (to && time > new Date(to).getTime())) return false;
+  if (moods && moods.length > 0 && !moods.includes(entry.mood)) return false;
+  if (tags && !tags.every(tag => entry.tags?.includes(tag))) return false;
+  if (q && !containsText(entry.content, q)) return false;
+  if (exclude && exclude.some(term => containsText(entry.content, term))) return false;
+  if (minWords !== undefined || maxWords !== undefined) {
+    const words = countWords(entry.content);
+    if ((minWords !== undefined && words < minWords) || (maxWords !== undefined && words > maxWords)) return false;
+  }
+  return true;
+}
+
+// 分页游标与服务器格式相同（上一页最后一篇日记的 [date, id]，base64url 编码），
+// 离线时翻到一半也能从本地副本接着加载
+function encodeCursor(entry: Entry): string {
+  return btoa(JSON.stringify([entry.date, entry.id])).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): { date: string; id: string } {
+  const [date, id] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+  return { date, id };
+}
+
+// 在给定的日记中分页查询，参数和结果与服务器的 /api/entries 分页相同
+export function paginateEntries(entries: Entry[], filter: EntryFilter, cursor: string | null, limit: number): EntryPage {
+  const after = cursor ? decodeCursor(cursor) : null;
+  const matches = entries
+    .filter(entry => matchesEntryFilter(entry, filter) && (!after || compareEntries(entry, after) > 0))
+    .sort(compareEntries);
+  const page = matches.slice(0, limit);
+  return {
+    entries: page,
+    nextCursor: matches.length > limit ? encodeCursor(page[page.length - 1]) : null
+  };
+}
+
+// 没有搜索索引可用时按关键词原样匹配，摘要从第一处匹配附近截取
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 30;
+
+function createSnippet(content: string, q: string): SearchSnippet {
+  const lowerContent = content.toLowerCase();
+  const lowerQuery = q.toLowerCase();
+  const first = lowerContent.indexOf(lowerQuery);
+  const start = Math.max(0, Math.min(first - SNIPPET_LEAD, content.length - SNIPPET_LENGTH));
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const highlights: [number, number][] = [];
+  for (let index = first; index !== -1 && index + q.length <= end; index = lowerContent.indexOf(lowerQuery, index + q.length)) {
+    if (index >= start) {
+      highlights.push([index - start + prefix.length, index - start + prefix.length + q.length]);
+    }
+  }
+  return {
+    text: prefix + content.slice(start, end).replace(/\s/g, ' ') + (end < content.length ? '…' : ''),
+    highlights
+  };
+}
+
+// 在给定的日记中搜索，结果按日期倒序，参数和结果与服务器的 /api/search 相同
+export function searchEntryList(entries: Entry[], q: string, filter: EntryFilter, offset: number, limit: number): SearchResult {
+  const matches = entries
+    .filter(entry => matchesEntryFilter(entry, { ...filter, q }))
+    .sort(compareEntries);
+  return {
+    total: matches.length,
+    hits: matches.slice(offset, offset + limit).map(entry => ({ entry, score: 0, snippet: createSnippet(entry.content, q) }))
+  };
+}
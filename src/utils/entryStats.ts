@@ -0,0 +1,18 @@
+// 日记统计 - 离线时在本地副本中统计，规则与服务器的 server/stats/entryStats.js 一致
+import { Entry, EntryStats } from '../types';
+import { countEmotionPairs, summarizeEmotions } from './emotionWheel';
+import { countTags } from './hashtags';
+
+export function summarizeEntries(entries: Entry[]): EntryStats {
+  const moods: Record<string, number> = {};
+  for (const entry of entries) {
+    moods[entry.mood] = (moods[entry.mood] || 0) + 1;
+  }
+  return {
+    total: entries.length,
+    moods,
+    tags: countTags(entries),
+    emotions: summarizeEmotions(entries),
+    emotionPairs: countEmotionPairs(entries)
+  };
+}
@@ -0,0 +1,56 @@
+// 日记标签 - 标签保存在日记的 tags 列表中（不带 #），编辑日记时正文中的 #标签 会自动加入列表。
+// 代码块和行内代码中的 # 不算标签；规则与服务器的 server/tags/hashtags.js 一致
+import { Entry } from '../types';
+
+const TAG = /^[\p{L}\p{N}_][\p{L}\p{N}_\-/]*$/u;
+// # 前面不能是文字、& 或 /，排除 Markdown 标题（# 后有空格）、网址中的 #锚点和 HTML 实体
+const HASHTAG = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_][\p{L}\p{N}_\-/]*)/gu;
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+export const MAX_TAG_LENGTH = 50;
+
+export function isValidTag(tag: string): boolean {
+  return tag.length <= MAX_TAG_LENGTH && TAG.test(tag);
+}
+
+// 输入的标签去掉开头的 # 和首尾空格，无效时返回 null
+export function normalizeTag(input: string): string | null {
+  const tag = input.trim().replace(/^#+/, '');
+  return isValidTag(tag) ? tag : null;
+}
+
+// 正文中出现的标签，按第一次出现的顺序排列，不重复
+export function extractHashtags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const [, , tag] of content.replace(CODE, ' ').matchAll(HASHTAG)) {
+    if (tag.length <= MAX_TAG_LENGTH) tags.add(tag);
+  }
+  return [...tags];
+}
+
+// 把正文中的 #tag 改为 #newTag；newTag 为 null 时去掉 #，只保留文字。代码中的内容不变
+export function replaceHashtag(content: string, tag: string, newTag: string | null): string {
+  const replace = (text: string) => text.replace(HASHTAG, (match, prefix: string, name: string) => (
+    name === tag ? `${prefix}${newTag === null ? name : `#${newTag}`}` : match
+  ));
+  let result = '';
+  let position = 0;
+  for (const match of content.matchAll(CODE)) {
+    result += replace(content.slice(position, match.index)) + match[0];
+    position = match.index! + match[0].length;
+  }
+  return result + replace(content.slice(position));
+}
+
+// 合并标签列表，保持原有顺序并去掉重复的标签
+export function mergeTags(...lists: string[][]): string[] {
+  return [...new Set(lists.flat())];
+}
+
+// 各标签的日记数，按日记数从多到少排列，相同时按名称排列
+export function countTags(entries: Entry[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    entry.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  }
+  return [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+}
@@ -0,0 +1,40 @@
+// 照片缩略图 - 在浏览器中把图片缩小为 JPEG 缩略图，与原图一起上传，服务器不需要处理图片。
+// 浏览器无法解码的格式（例如部分浏览器中的 HEIC）没有缩略图，显示时使用原图
+
+// 缩略图的长边
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+
+export interface ImageThumbnail {
+  thumbnail: Blob | null;
+  width?: number;
+  height?: number;
+}
+
+export async function createImageThumbnail(file: Blob): Promise<ImageThumbnail> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    return { thumbnail: null };
+  }
+  const { width, height } = bitmap;
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return { thumbnail: null, width, height };
+    }
+    // JPEG 没有透明通道，透明部分填充为白色
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+    return { thumbnail, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
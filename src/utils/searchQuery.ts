@@ -0,0 +1,113 @@
+// 搜索语法 - 把日记本搜索框中的语句解析为查询条件。例如：
+//   mood:happy,amazing #工作 after:2025-01-01 before:2025-03-01 "完整短语" -排除的词 words:>200
+// mood: 心情（值或名称，多个用逗号分隔）；#标签 只显示带有该标签的日记（多个标签需全部包含）；
+// after: / before: 日期范围（after 包含当天，before 不包含）；
+// -词 或 -"短语" 排除包含它的日记；words: 字数，可用 > >= < <= =；其余的词和短语用于全文搜索
+import { EntryFilter } from '../types';
+import { normalizeTag } from './hashtags';
+
+export interface ParsedSearchQuery {
+  filter: EntryFilter;
+  // 全文搜索词（普通词和带引号的短语），为空时按日期列出满足条件的日记
+  text: string;
+  errors: string[];
+}
+
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(\S+)/g;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WORD_COUNT_PATTERN = /^(>=|<=|>|<|=)?(\d+)$/;
+
+// 本地日期当天零点
+function parseLocalDate(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) {
+    return null;
+  }
+  const date = new Date(`${value}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function parseSearchQuery(query: string, moodOptions: { value: string; label: string }[]): ParsedSearchQuery {
+  const filter: EntryFilter = {};
+  const textParts: string[] = [];
+  const exclude: string[] = [];
+  const errors: string[] = [];
+
+  const narrowWords = (min?: number, max?: number) => {
+    if (min !== undefined) filter.minWords = Math.max(filter.minWords ?? 0, min);
+    if (max !== undefined) filter.maxWords = Math.min(filter.maxWords ?? Infinity, max);
+  };
+
+  for (const [token, negated, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (phrase !== undefined) {
+      if (!phrase.trim()) continue;
+      if (negated) {
+        exclude.push(phrase);
+      } else {
+        textParts.push(`"${phrase}"`);
+      }
+      continue;
+    }
+    if (word.length > 1 && word.startsWith('-')) {
+      exclude.push(word.slice(1));
+      continue;
+    }
+    if (word.length > 1 && word.startsWith('#')) {
+      const tag = normalizeTag(word);
+      if (tag) {
+        filter.tags = [...(filter.tags ?? []), tag];
+      } else {
+        errors.push(`标签无效：${token}`);
+      }
+      continue;
+    }
+
+    const separator = word.indexOf(':');
+    const key = separator > 0 ? word.slice(0, separator).toLowerCase() : '';
+    const value = word.slice(separator + 1);
+    switch (key) {
+      case 'mood': {
+        const moods = value.split(',').filter(Boolean).map(name => {
+          const mood = moodOptions.find(option => option.value === name || option.label === name);
+          if (!mood) errors.push(`未知的心情：${name}`);
+          return mood?.value;
+        });
+        filter.moods = moods.filter((mood): mood is string => mood !== undefined);
+        break;
+      }
+      case 'after':
+      case 'before': {
+        const date = parseLocalDate(value);
+        if (!date) {
+          errors.push(`日期格式应为 YYYY-MM-DD：${token}`);
+        } else if (key === 'after') {
+          filter.from = date.toISOString();
+        } else {
+          filter.to = new Date(date.getTime() - 1).toISOString();
+        }
+        break;
+      }
+      case 'words': {
+        const match = value.match(WORD_COUNT_PATTERN);
+        if (!match) {
+          errors.push(`字数条件无效：${token}`);
+          break;
+        }
+        const count = Number(match[2]);
+        const operator = match[1] ?? '=';
+        if (operator === '>') narrowWords(count + 1);
+        if (operator === '>=') narrowWords(count);
+        if (operator === '<') narrowWords(undefined, Math.max(0, count - 1));
+        if (operator === '<=') narrowWords(undefined, count);
+        if (operator === '=') narrowWords(count, count);
+        break;
+      }
+      default:
+        textParts.push(word);
+    }
+  }
+
+  if (exclude.length > 0) {
+    filter.exclude = exclude;
+  }
+  return { filter, text: textParts.join(' '), errors };
+}
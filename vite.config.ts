@@ -1,11 +1,21 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// 开发时把 /api 请求代理到后端服务器（默认端口 3001，可用 API_PROXY_TARGET 修改）
+const apiProxy = {
+  '/api': process.env.API_PROXY_TARGET || 'http://127.0.0.1:3001'
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
-    open: true
+    open: true,
+    proxy: apiProxy
+  },
+  preview: {
+    port: 3000,
+    proxy: apiProxy
   }
-}) 
\ No newline at end of file
+})